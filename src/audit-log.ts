@@ -0,0 +1,123 @@
+import { createHash } from 'crypto';
+import { promises as fs } from 'fs';
+import os from 'os';
+import path from 'path';
+import { InvalidArgumentError } from './errors.js';
+import { FileDiff, ProjectYamlFiles } from './yaml-utils.js';
+
+export interface AuditEntry {
+  timestamp: string;
+  tool: string;
+  projectId: string;
+  profile: string;
+  client?: { name?: string; version?: string; sessionId?: string };
+  commitMessage?: string;
+  // 'unknown' when the upload was cancelled or lost before FlutterFlow answered
+  outcome: 'committed' | 'failed' | 'unknown';
+  files: Array<Pick<FileDiff, 'filename' | 'status'>>;
+  // sha256 over the touched files, before and after the change
+  hashBefore: string;
+  hashAfter: string;
+  snapshotId?: string;
+  result?: unknown;
+  error?: { code?: string; message: string };
+}
+
+export interface AuditQuery {
+  projectId?: string;
+  // ISO timestamps or dates; a bare date as `until` includes that whole day
+  since?: string;
+  until?: string;
+  limit?: number;
+}
+
+export interface AuditLogOptions {
+  directory?: string;
+  // Keeps accounts apart when several tokens share one audit directory
+  namespace?: string;
+}
+
+const DATE_ONLY = /^\d{4}-\d{2}-\d{2}$/;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+function parseTime(value: string, name: string): number {
+  const time = Date.parse(value);
+  if (Number.isNaN(time)) {
+    throw new InvalidArgumentError(`Invalid ${name} "${value}": expected an ISO date or timestamp`);
+  }
+  return time;
+}
+
+/**
+ * Fingerprints the given files of a project so an audit entry can show what
+ * a change replaced and what it left behind. Missing files hash as null.
+ */
+export function hashProjectFiles(files: ProjectYamlFiles, filenames: string[]): string {
+  const entries = [...filenames].sort().map(filename => [filename, files[filename] ?? null]);
+  return createHash('sha256').update(JSON.stringify(entries)).digest('hex');
+}
+
+/**
+ * Append-only JSONL record of every commit the server makes (or attempts),
+ * so changes made by agents can be traced afterwards.
+ */
+export class AuditLog {
+  readonly filePath: string;
+
+  constructor(options: AuditLogOptions = {}) {
+    let directory = options.directory
+      || process.env.FLUTTERFLOW_AUDIT_DIR
+      || path.join(os.homedir(), '.flutterflow-mcp', 'audit');
+    if (options.namespace) {
+      directory = path.join(directory, options.namespace);
+    }
+    this.filePath = path.join(directory, 'audit.jsonl');
+  }
+
+  async append(entry: AuditEntry): Promise<void> {
+    // Entries carry commit messages and FlutterFlow responses; keep them to the owner
+    await fs.mkdir(path.dirname(this.filePath), { recursive: true, mode: 0o700 });
+    await fs.appendFile(this.filePath, JSON.stringify(entry) + '\n', { encoding: 'utf8', mode: 0o600 });
+  }
+
+  /**
+   * Entries matching the query, newest first.
+   */
+  async query(query: AuditQuery = {}): Promise<AuditEntry[]> {
+    const since = query.since ? parseTime(query.since, 'since') : -Infinity;
+    const until = query.until
+      ? parseTime(query.until, 'until') + (DATE_ONLY.test(query.until) ? DAY_MS : 1)
+      : Infinity;
+
+    let content: string;
+    try {
+      content = await fs.readFile(this.filePath, 'utf8');
+    } catch (error: any) {
+      if (error?.code === 'ENOENT') {
+        return [];
+      }
+      throw error;
+    }
+
+    const entries: AuditEntry[] = [];
+    content.split('\n').forEach(line => {
+      if (!line.trim()) {
+        return;
+      }
+      try {
+        entries.push(JSON.parse(line) as AuditEntry);
+      } catch {
+        // A torn last line from a crash shouldn't hide the rest of the log
+      }
+    });
+
+    const matches = entries
+      .filter(entry => !query.projectId || entry.projectId === query.projectId)
+      .filter(entry => {
+        const time = Date.parse(entry.timestamp);
+        return time >= since && time < until;
+      })
+      .reverse();
+    return query.limit !== undefined ? matches.slice(0, query.limit) : matches;
+  }
+}
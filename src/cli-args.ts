@@ -0,0 +1,22 @@
+/**
+ * Reads `--name value` or `--name=value` from the command line.
+ */
+export function readFlag(argv: string[], name: string): string | undefined {
+  for (let i = 0; i < argv.length; i++) {
+    const arg = argv[i];
+    if (arg === `--${name}`) {
+      return argv[i + 1];
+    }
+    if (arg.startsWith(`--${name}=`)) {
+      return arg.slice(name.length + 3);
+    }
+  }
+  return undefined;
+}
+
+/**
+ * True for a bare `--name` switch, or `--name=true`.
+ */
+export function hasFlag(argv: string[], name: string): boolean {
+  return argv.some(arg => arg === `--${name}` || arg === `--${name}=true`);
+}
@@ -0,0 +1,128 @@
+import { createHash, randomUUID } from 'crypto';
+import { Server } from '@modelcontextprotocol/sdk/server/index.js';
+import { ConfirmationDeclinedError, InvalidArgumentError } from './errors.js';
+import { FileDiff } from './yaml-utils.js';
+
+const DEFAULT_TTL_MS = 10 * 60 * 1000;
+
+/**
+ * What a confirmation is for. The fingerprint covers the exact diff, so a
+ * token can't be reused for a different change or after the project moved on.
+ */
+export interface PendingCommit {
+  tool: string;
+  projectId: string;
+  changes: FileDiff[];
+}
+
+export interface ChangeSummary {
+  files: number;
+  linesAdded: number;
+  linesRemoved: number;
+}
+
+export function summarizeChanges(changes: FileDiff[]): ChangeSummary {
+  let linesAdded = 0;
+  let linesRemoved = 0;
+  changes.forEach(change => {
+    change.diff.split('\n').forEach(line => {
+      if (line.startsWith('+') && !line.startsWith('+++')) {
+        linesAdded++;
+      } else if (line.startsWith('-') && !line.startsWith('---')) {
+        linesRemoved++;
+      }
+    });
+  });
+  return { files: changes.length, linesAdded, linesRemoved };
+}
+
+function fingerprint(commit: PendingCommit): string {
+  return createHash('sha256')
+    .update(JSON.stringify([commit.tool, commit.projectId, commit.changes]))
+    .digest('hex');
+}
+
+/**
+ * One-time tokens for the two-step confirmation used by clients without
+ * elicitation: the first call returns a token, a second identical call
+ * passing it commits.
+ */
+export class ConfirmationStore {
+  private pending = new Map<string, { fingerprint: string; expiresAt: number }>();
+  private readonly ttlMs: number;
+
+  constructor(options: { ttlMs?: number } = {}) {
+    this.ttlMs = options.ttlMs ?? DEFAULT_TTL_MS;
+  }
+
+  issue(commit: PendingCommit): { token: string; expiresAt: string } {
+    this.prune();
+    const token = randomUUID();
+    const expiresAt = Date.now() + this.ttlMs;
+    this.pending.set(token, { fingerprint: fingerprint(commit), expiresAt });
+    return { token, expiresAt: new Date(expiresAt).toISOString() };
+  }
+
+  /**
+   * Redeems a token. Tokens are single use, even when they don't match.
+   */
+  consume(token: string, commit: PendingCommit): void {
+    this.prune();
+    const entry = this.pending.get(token);
+    this.pending.delete(token);
+    if (!entry) {
+      throw new InvalidArgumentError('Unknown or expired confirmation token; call the tool again without it for a new one');
+    }
+    if (entry.fingerprint !== fingerprint(commit)) {
+      throw new InvalidArgumentError(
+        'The change no longer matches what was confirmed; review the new preview and confirm again'
+      );
+    }
+  }
+
+  private prune(): void {
+    const now = Date.now();
+    this.pending.forEach((entry, token) => {
+      if (entry.expiresAt <= now) {
+        this.pending.delete(token);
+      }
+    });
+  }
+}
+
+export function supportsElicitation(server: Server): boolean {
+  return server.getClientCapabilities()?.elicitation !== undefined;
+}
+
+/**
+ * Asks the user to approve a commit through MCP elicitation. Anything other
+ * than an explicit approval aborts the commit.
+ */
+export async function elicitCommitConfirmation(
+  server: Server,
+  commit: PendingCommit & { commitMessage?: string }
+): Promise<void> {
+  const summary = summarizeChanges(commit.changes);
+  const fileList = commit.changes.map(change => `  ${change.status}: ${change.filename}`).join('\n');
+  const message = [
+    `${commit.tool} wants to commit to FlutterFlow project ${commit.projectId}`
+      + (commit.commitMessage ? ` ("${commit.commitMessage}")` : '') + '.',
+    `${summary.files} file(s), +${summary.linesAdded} / -${summary.linesRemoved} lines:`,
+    fileList,
+  ].join('\n');
+
+  const result = await server.elicitInput({
+    message,
+    requestedSchema: {
+      type: 'object',
+      properties: {
+        confirm: { type: 'boolean', title: 'Commit these changes', default: false },
+      },
+      required: ['confirm'],
+    },
+  });
+
+  if (result.action !== 'accept' || result.content?.confirm !== true) {
+    throw new ConfirmationDeclinedError(`Commit to project ${commit.projectId} was not confirmed by the user`);
+  }
+}
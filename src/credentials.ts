@@ -0,0 +1,110 @@
+import { readFileSync } from 'fs';
+import os from 'os';
+import path from 'path';
+import { InvalidArgumentError } from './errors.js';
+
+export const DEFAULT_PROFILE_NAME = 'default';
+
+export interface CredentialProfile {
+  name: string;
+  apiToken: string;
+  baseURL?: string;
+  // True for the profile built from FLUTTERFLOW_API_TOKEN
+  fromEnvironment?: boolean;
+}
+
+/**
+ * Shape of the profiles file. Tokens can be given inline or, to keep secrets
+ * out of the file, as the name of an environment variable holding them.
+ */
+interface ProfilesFile {
+  defaultProfile?: string;
+  profiles?: Record<string, { apiToken?: string; apiTokenEnv?: string; baseURL?: string }>;
+}
+
+export function defaultProfilesPath(): string {
+  return process.env.FLUTTERFLOW_PROFILES_FILE
+    || path.join(os.homedir(), '.flutterflow-mcp', 'profiles.json');
+}
+
+/**
+ * Named FlutterFlow credentials, so one server can work across several
+ * accounts (e.g. a personal account and one per agency client). Tools pick a
+ * profile with their `profile` argument and fall back to the default one.
+ */
+export class CredentialsRegistry {
+  private profiles = new Map<string, CredentialProfile>();
+  readonly defaultProfile: string | undefined;
+
+  constructor(profiles: CredentialProfile[], defaultProfile?: string) {
+    profiles.forEach(profile => this.profiles.set(profile.name, profile));
+
+    if (defaultProfile !== undefined && !this.profiles.has(defaultProfile)) {
+      throw new InvalidArgumentError(`Default profile "${defaultProfile}" is not configured`);
+    }
+    this.defaultProfile = defaultProfile
+      ?? (this.profiles.has(DEFAULT_PROFILE_NAME) ? DEFAULT_PROFILE_NAME : profiles[0]?.name);
+  }
+
+  /**
+   * Builds the registry from the profiles file plus FLUTTERFLOW_API_TOKEN,
+   * which becomes the "default" profile unless the file defines one.
+   */
+  static load(filePath: string = defaultProfilesPath(), env: NodeJS.ProcessEnv = process.env): CredentialsRegistry {
+    const profiles: CredentialProfile[] = [];
+    let file: ProfilesFile = {};
+
+    try {
+      file = JSON.parse(readFileSync(filePath, 'utf8')) as ProfilesFile;
+    } catch (error: any) {
+      if (error?.code !== 'ENOENT') {
+        throw new InvalidArgumentError(`Failed to read profiles file ${filePath}: ${error.message}`);
+      }
+    }
+
+    Object.entries(file.profiles ?? {}).forEach(([name, entry]) => {
+      const apiToken = entry.apiToken || (entry.apiTokenEnv ? env[entry.apiTokenEnv] : undefined);
+      if (!apiToken) {
+        throw new InvalidArgumentError(
+          `Profile "${name}" has no API token` + (entry.apiTokenEnv ? ` (${entry.apiTokenEnv} is not set)` : '')
+        );
+      }
+      profiles.push({ name, apiToken, baseURL: entry.baseURL });
+    });
+
+    if (env.FLUTTERFLOW_API_TOKEN && !profiles.some(profile => profile.name === DEFAULT_PROFILE_NAME)) {
+      profiles.unshift({ name: DEFAULT_PROFILE_NAME, apiToken: env.FLUTTERFLOW_API_TOKEN, fromEnvironment: true });
+    }
+
+    return new CredentialsRegistry(profiles, env.FLUTTERFLOW_PROFILE || file.defaultProfile);
+  }
+
+  /**
+   * A registry holding just one token, used for HTTP sessions that bring
+   * their own FlutterFlow credentials.
+   */
+  static fromToken(apiToken: string): CredentialsRegistry {
+    return new CredentialsRegistry([{ name: DEFAULT_PROFILE_NAME, apiToken }]);
+  }
+
+  listProfiles(): string[] {
+    return [...this.profiles.keys()];
+  }
+
+  getProfile(name?: string): CredentialProfile {
+    const profileName = name ?? this.defaultProfile;
+    if (profileName === undefined) {
+      throw new InvalidArgumentError(
+        'No FlutterFlow credentials configured: set FLUTTERFLOW_API_TOKEN or add profiles to ' + defaultProfilesPath()
+      );
+    }
+
+    const profile = this.profiles.get(profileName);
+    if (!profile) {
+      throw new InvalidArgumentError(
+        `Unknown profile "${profileName}". Available profiles: ${this.listProfiles().join(', ') || 'none'}`
+      );
+    }
+    return profile;
+  }
+}
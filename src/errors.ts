@@ -0,0 +1,262 @@
+import axios from 'axios';
+import { ZodError } from 'zod';
+import { parseRetryAfter } from './retry.js';
+
+export type FlutterFlowErrorCode =
+  | 'AUTHENTICATION_FAILED'
+  | 'NOT_FOUND'
+  | 'RATE_LIMITED'
+  | 'VALIDATION_FAILED'
+  | 'UNEXPECTED_RESPONSE'
+  | 'NETWORK_ERROR'
+  | 'INVALID_ARGUMENT'
+  | 'WRITE_FORBIDDEN'
+  | 'CONFIRMATION_DECLINED'
+  | 'CANCELLED'
+  | 'API_ERROR';
+
+export interface FlutterFlowErrorDetails {
+  status?: number;
+  endpoint?: string;
+  requestId?: string;
+  cause?: unknown;
+}
+
+/**
+ * Base class for every error surfaced by the server. Carries enough context
+ * (HTTP status, endpoint, request id) for clients to decide how to react.
+ */
+export class FlutterFlowError extends Error {
+  readonly code: FlutterFlowErrorCode = 'API_ERROR';
+  readonly status?: number;
+  readonly endpoint?: string;
+  readonly requestId?: string;
+
+  constructor(message: string, details: FlutterFlowErrorDetails = {}) {
+    super(message, details.cause !== undefined ? { cause: details.cause } : undefined);
+    this.name = new.target.name;
+    this.status = details.status;
+    this.endpoint = details.endpoint;
+    this.requestId = details.requestId;
+  }
+
+  /**
+   * Whether retrying the same request later might succeed.
+   */
+  get retryable(): boolean {
+    return this.status !== undefined && this.status >= 500;
+  }
+
+  toJSON(): Record<string, unknown> {
+    return {
+      code: this.code,
+      type: this.name,
+      message: this.message,
+      status: this.status,
+      endpoint: this.endpoint,
+      requestId: this.requestId,
+      retryable: this.retryable,
+    };
+  }
+}
+
+export class AuthenticationError extends FlutterFlowError {
+  readonly code = 'AUTHENTICATION_FAILED';
+}
+
+export class NotFoundError extends FlutterFlowError {
+  readonly code = 'NOT_FOUND';
+}
+
+export class RateLimitError extends FlutterFlowError {
+  readonly code = 'RATE_LIMITED';
+  readonly retryAfterMs?: number;
+
+  constructor(message: string, details: FlutterFlowErrorDetails & { retryAfterMs?: number } = {}) {
+    super(message, details);
+    this.retryAfterMs = details.retryAfterMs;
+  }
+
+  get retryable(): boolean {
+    return true;
+  }
+
+  toJSON(): Record<string, unknown> {
+    return { ...super.toJSON(), retryAfterMs: this.retryAfterMs };
+  }
+}
+
+export class ValidationError extends FlutterFlowError {
+  readonly code = 'VALIDATION_FAILED';
+}
+
+export class UnexpectedResponseError extends FlutterFlowError {
+  readonly code = 'UNEXPECTED_RESPONSE';
+}
+
+export class NetworkError extends FlutterFlowError {
+  readonly code = 'NETWORK_ERROR';
+
+  get retryable(): boolean {
+    return true;
+  }
+}
+
+/**
+ * Raised when the server's write policy (read-only mode or the project
+ * allowlist) refuses a change. Retrying won't help without reconfiguring.
+ */
+export class WriteForbiddenError extends FlutterFlowError {
+  readonly code = 'WRITE_FORBIDDEN';
+}
+
+/**
+ * Raised when the user declines (or dismisses) the confirmation prompt for a
+ * commit. Nothing was sent to FlutterFlow.
+ */
+export class ConfirmationDeclinedError extends FlutterFlowError {
+  readonly code = 'CONFIRMATION_DECLINED';
+}
+
+/**
+ * Raised when the client cancels a request while it is still running.
+ */
+export class CancelledError extends FlutterFlowError {
+  readonly code = 'CANCELLED';
+}
+
+/**
+ * Raised for bad tool input, before any request reaches FlutterFlow.
+ */
+export class InvalidArgumentError extends FlutterFlowError {
+  readonly code = 'INVALID_ARGUMENT';
+}
+
+/**
+ * Raised when tool arguments don't match the tool's input schema. Lists every
+ * offending field so the caller can fix them all in one go.
+ */
+export class ArgumentValidationError extends InvalidArgumentError {
+  readonly issues: Array<{ path: string; message: string }>;
+
+  constructor(message: string, issues: Array<{ path: string; message: string }>) {
+    super(message);
+    this.issues = issues;
+  }
+
+  toJSON(): Record<string, unknown> {
+    return { ...super.toJSON(), issues: this.issues };
+  }
+}
+
+/**
+ * Raised when a widget selector can't be parsed. Points at the character
+ * where parsing failed.
+ */
+export class SelectorError extends InvalidArgumentError {
+  readonly selector: string;
+  readonly position: number;
+
+  constructor(message: string, selector: string, position: number) {
+    super(message);
+    this.selector = selector;
+    this.position = position;
+  }
+
+  toJSON(): Record<string, unknown> {
+    return { ...super.toJSON(), selector: this.selector, position: this.position };
+  }
+}
+
+/**
+ * Raised when a JSON Patch or merge patch cannot be applied. Points at the
+ * offending operation and path so the caller can fix just that part.
+ */
+export class PatchError extends InvalidArgumentError {
+  readonly path: string;
+  readonly operationIndex?: number;
+
+  constructor(message: string, path: string, operationIndex?: number) {
+    super(message);
+    this.path = path;
+    this.operationIndex = operationIndex;
+  }
+
+  toJSON(): Record<string, unknown> {
+    return { ...super.toJSON(), path: this.path, operationIndex: this.operationIndex };
+  }
+}
+
+function getResponseMessage(data: any): string | undefined {
+  if (!data || typeof data !== 'object') {
+    return undefined;
+  }
+  return data.message || data.error || data.reason;
+}
+
+/**
+ * Converts anything thrown while talking to the FlutterFlow API into a typed
+ * FlutterFlowError. Errors that are already typed pass through untouched so
+ * that nested calls don't re-wrap them.
+ */
+export function toFlutterFlowError(error: unknown, action: string, endpoint: string): FlutterFlowError {
+  if (error instanceof FlutterFlowError) {
+    return error;
+  }
+
+  if (axios.isCancel(error)) {
+    return new CancelledError(`Failed to ${action}: the request was cancelled`, { endpoint, cause: error });
+  }
+
+  if (axios.isAxiosError(error)) {
+    const response = error.response;
+    if (!response) {
+      return new NetworkError(`Failed to ${action}: ${error.message}`, { endpoint, cause: error });
+    }
+
+    const status = response.status;
+    const detail = getResponseMessage(response.data) || `${status}: ${response.statusText}`;
+    const message = `Failed to ${action}: ${detail}`;
+    const requestId = response.headers?.['x-request-id'] || response.headers?.['x-cloud-trace-context'];
+    const details = { status, endpoint, requestId, cause: error };
+
+    if (status === 401 || status === 403) {
+      return new AuthenticationError(message, details);
+    }
+    if (status === 404) {
+      return new NotFoundError(message, details);
+    }
+    if (status === 429) {
+      const retryAfterMs = parseRetryAfter(response.headers?.['retry-after']) ?? undefined;
+      return new RateLimitError(message, { ...details, retryAfterMs });
+    }
+    if (status === 400 || status === 422) {
+      return new ValidationError(message, details);
+    }
+    return new FlutterFlowError(message, details);
+  }
+
+  if (error instanceof ZodError || error instanceof SyntaxError) {
+    return new UnexpectedResponseError(`Failed to ${action}: Unexpected response format`, { endpoint, cause: error });
+  }
+
+  const message = error instanceof Error ? error.message : String(error);
+  return new FlutterFlowError(`Failed to ${action}: ${message}`, { endpoint, cause: error });
+}
+
+/**
+ * Raised when a project reference matches more than one project. Lists the
+ * candidates so the caller can retry with an exact id or name.
+ */
+export class AmbiguousProjectError extends InvalidArgumentError {
+  readonly candidates: Array<{ projectId: string; name: string }>;
+
+  constructor(message: string, candidates: Array<{ projectId: string; name: string }>) {
+    super(message);
+    this.candidates = candidates;
+  }
+
+  toJSON(): Record<string, unknown> {
+    return { ...super.toJSON(), candidates: this.candidates };
+  }
+}
@@ -1,7 +1,13 @@
 import axios, { AxiosInstance } from 'axios';
 import { z } from 'zod';
+import { RetryPolicy, resolveRetryPolicy, withRetry } from './retry.js';
+import { UnexpectedResponseError, toFlutterFlowError } from './errors.js';
+import { createLogger } from './logger.js';
+import { OperationOptions } from './progress.js';
 
-const ProjectSchema = z.object({
+const logger = createLogger('flutterflow-api');
+
+export const ProjectSchema = z.object({
   projectId: z.string(),
   name: z.string(),
   description: z.string().optional(),
@@ -16,25 +22,34 @@ const FileNamesResponseSchema = z.object({
   fileNames: z.array(z.string()),
 });
 
-const ValidationResponseSchema = z.object({
+export const ValidationResponseSchema = z.object({
   valid: z.boolean(),
   errors: z.array(z.string()).optional().default([]),
   warnings: z.array(z.string()).optional().default([]),
 });
 
-type Project = z.infer<typeof ProjectSchema>;
+export type Project = z.infer<typeof ProjectSchema>;
 type ProjectsResponse = z.infer<typeof ProjectsResponseSchema>;
 type FileNamesResponse = z.infer<typeof FileNamesResponseSchema>;
-type ValidationResponse = z.infer<typeof ValidationResponseSchema>;
+export type ValidationResponse = z.infer<typeof ValidationResponseSchema>;
+
+export interface FlutterFlowAPIOptions {
+  // Defaults to FLUTTERFLOW_API_TOKEN
+  apiToken?: string;
+  // Defaults to FLUTTERFLOW_API_BASE_URL
+  baseURL?: string;
+  retry?: Partial<RetryPolicy>;
+}
 
 export class FlutterFlowAPI {
   private client: AxiosInstance;
   private baseURL: string;
   private apiToken: string;
+  private retryPolicy: RetryPolicy;
 
-  constructor() {
-    this.apiToken = process.env.FLUTTERFLOW_API_TOKEN || '';
-    this.baseURL = process.env.FLUTTERFLOW_API_BASE_URL || 'https://api.flutterflow.io/v2';
+  constructor(options: FlutterFlowAPIOptions = {}) {
+    this.apiToken = options.apiToken || process.env.FLUTTERFLOW_API_TOKEN || '';
+    this.baseURL = options.baseURL || process.env.FLUTTERFLOW_API_BASE_URL || 'https://api.flutterflow.io/v2';
     
     if (!this.apiToken) {
       throw new Error('FLUTTERFLOW_API_TOKEN environment variable is required');
@@ -48,18 +63,25 @@ export class FlutterFlowAPI {
       },
       timeout: 30000,
     });
+
+    this.retryPolicy = resolveRetryPolicy(options.retry);
   }
 
-  async listProjects(): Promise<Project[]> {
+  async listProjects(options: OperationOptions = {}): Promise<Project[]> {
     try {
-      const response = await this.client.post('/l/listProjects', {
+      const response = await this.request('/l/listProjects', () => this.client.post('/l/listProjects', {
         project_type: 'ALL',
         deserialize_response: true,
-      });
+      }, { signal: options.signal }), true, options.signal);
       
       // Parse the response which comes wrapped in a success/value structure
       const responseData = typeof response.data === 'string' ? JSON.parse(response.data) : response.data;
       const projectsData = responseData.success ? JSON.parse(responseData.value) : responseData;
+      if (!projectsData || !Array.isArray(projectsData.entries)) {
+        throw new UnexpectedResponseError('Failed to list projects: Unexpected response format', {
+          endpoint: '/l/listProjects',
+        });
+      }
       
       // Transform the FlutterFlow API response to match our expected schema
       const transformedData = {
@@ -74,47 +96,54 @@ export class FlutterFlowAPI {
       const parsed = ProjectsResponseSchema.parse(transformedData);
       return parsed.entries;
     } catch (error) {
-      throw new Error(`Failed to list projects: ${this.getErrorMessage(error)}`);
+      throw toFlutterFlowError(error, 'list projects', '/l/listProjects');
     }
   }
 
-  async getProjectByName(projectName: string): Promise<Project | null> {
+  async getProjectByName(projectName: string, options: OperationOptions = {}): Promise<Project | null> {
     try {
-      const projects = await this.listProjects();
+      const projects = await this.listProjects(options);
       return projects.find(project => 
         project.name.toLowerCase() === projectName.toLowerCase()
       ) || null;
     } catch (error) {
-      throw new Error(`Failed to find project by name: ${this.getErrorMessage(error)}`);
+      throw toFlutterFlowError(error, 'find project by name', '/l/listProjects');
     }
   }
 
-  async getProjectIdByName(projectName: string): Promise<string | null> {
+  async getProjectIdByName(projectName: string, options: OperationOptions = {}): Promise<string | null> {
     try {
-      const project = await this.getProjectByName(projectName);
+      const project = await this.getProjectByName(projectName, options);
       return project ? project.projectId : null;
     } catch (error) {
-      throw new Error(`Failed to get project ID by name: ${this.getErrorMessage(error)}`);
+      throw toFlutterFlowError(error, 'get project ID by name', '/l/listProjects');
     }
   }
 
-  async getProjectFiles(projectId: string): Promise<string[]> {
+  async getProjectFiles(projectId: string, options: OperationOptions = {}): Promise<string[]> {
     try {
-      const response = await this.client.get(`/listPartitionedFileNames?projectId=${projectId}`);
+      const response = await this.request(
+        '/listPartitionedFileNames',
+        () => this.client.get(`/listPartitionedFileNames?projectId=${projectId}`, { signal: options.signal }),
+        true,
+        options.signal
+      );
       
       // Handle the wrapped response format
       const responseData = response.data;
       if (responseData.success && responseData.value && responseData.value.file_names) {
         return responseData.value.file_names;
       } else {
-        throw new Error('Unexpected response format');
+        throw new UnexpectedResponseError('Failed to get project files: Unexpected response format', {
+          endpoint: '/listPartitionedFileNames',
+        });
       }
     } catch (error) {
-      throw new Error(`Failed to get project files: ${this.getErrorMessage(error)}`);
+      throw toFlutterFlowError(error, 'get project files', '/listPartitionedFileNames');
     }
   }
 
-  async downloadProjectYAML(projectId: string, fileNames?: string[]): Promise<string> {
+  async downloadProjectYAML(projectId: string, fileNames?: string[], options: OperationOptions = {}): Promise<string> {
     try {
       let url = `/projectYamls?projectId=${projectId}`;
       if (fileNames && fileNames.length > 0) {
@@ -122,26 +151,41 @@ export class FlutterFlowAPI {
         url += `&fileNames=${encodeURIComponent(fileNamesParam)}`;
       }
 
-      const response = await this.client.get(url);
+      options.onProgress?.({
+        stage: 'download',
+        message: fileNames?.length ? `Downloading ${fileNames.length} files` : 'Downloading project YAML',
+      });
+      const response = await this.request(
+        '/projectYamls',
+        () => this.client.get(url, { signal: options.signal }),
+        true,
+        options.signal
+      );
       
       // Handle the wrapped response format
       const responseData = response.data;
       if (responseData.success && responseData.value && responseData.value.project_yaml_bytes) {
+        options.onProgress?.({
+          stage: 'download',
+          message: `Downloaded ${Math.round(responseData.value.project_yaml_bytes.length * 0.75 / 1024)} KB`,
+        });
         return responseData.value.project_yaml_bytes;
       } else {
-        throw new Error('Unexpected response format');
+        throw new UnexpectedResponseError('Failed to download project YAML: Unexpected response format', {
+          endpoint: '/projectYamls',
+        });
       }
     } catch (error) {
-      throw new Error(`Failed to download project YAML: ${this.getErrorMessage(error)}`);
+      throw toFlutterFlowError(error, 'download project YAML', '/projectYamls');
     }
   }
 
-  async validateProjectYAML(projectId: string, yamlContent: string): Promise<ValidationResponse> {
+  async validateProjectYAML(projectId: string, yamlContent: string, options: OperationOptions = {}): Promise<ValidationResponse> {
     try {
-      const response = await this.client.post('/validateProjectYaml', {
+      const response = await this.request('/validateProjectYaml', () => this.client.post('/validateProjectYaml', {
         projectId,
         yamlContent,
-      });
+      }, { signal: options.signal }), true, options.signal);
       
       // Handle the wrapped response format
       const responseData = response.data;
@@ -161,14 +205,15 @@ export class FlutterFlowAPI {
         };
       }
     } catch (error) {
-      throw new Error(`Failed to validate project YAML: ${this.getErrorMessage(error)}`);
+      throw toFlutterFlowError(error, 'validate project YAML', '/validateProjectYaml');
     }
   }
 
   async updateProjectYAML(
     projectId: string, 
     yamlContent: string, 
-    commitMessage?: string
+    commitMessage?: string,
+    options: OperationOptions = {}
   ): Promise<any> {
     try {
       const requestBody: any = {
@@ -180,25 +225,32 @@ export class FlutterFlowAPI {
         requestBody.commitMessage = commitMessage;
       }
 
-      const response = await this.client.post('/updateProjectByYaml', requestBody);
+      // Updates are not idempotent, so they are only retried when the policy opts in
+      options.onProgress?.({ stage: 'upload', message: 'Uploading changes to FlutterFlow' });
+      const response = await this.request(
+        '/updateProjectByYaml',
+        () => this.client.post('/updateProjectByYaml', requestBody, { signal: options.signal }),
+        false,
+        options.signal
+      );
+      options.onProgress?.({ stage: 'upload', message: 'Upload complete' });
       return response.data;
     } catch (error) {
-      throw new Error(`Failed to update project YAML: ${this.getErrorMessage(error)}`);
+      throw toFlutterFlowError(error, 'update project YAML', '/updateProjectByYaml');
     }
   }
 
-  private getErrorMessage(error: any): string {
-    if (axios.isAxiosError(error)) {
-      if (error.response?.data?.message) {
-        return error.response.data.message;
-      }
-      if (error.response?.data?.error) {
-        return error.response.data.error;
-      }
-      if (error.response?.statusText) {
-        return `${error.response.status}: ${error.response.statusText}`;
-      }
-    }
-    return error instanceof Error ? error.message : String(error);
+  private async request<T>(
+    endpoint: string,
+    operation: () => Promise<T>,
+    idempotent: boolean = true,
+    signal?: AbortSignal
+  ): Promise<T> {
+    logger.debug(`Calling ${endpoint}`);
+    return withRetry(operation, this.retryPolicy, idempotent, (error, attempt, delayMs) => {
+      logger.warning(`Retrying ${endpoint} (attempt ${attempt}/${this.retryPolicy.maxRetries}) in ${delayMs}ms`, {
+        error: error instanceof Error ? error.message : String(error),
+      });
+    }, signal);
   }
-}
\ No newline at end of file
+}
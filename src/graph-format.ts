@@ -0,0 +1,68 @@
+import { GraphNodeKind, ReferenceGraph } from './yaml-utils.js';
+
+export const NODE_KIND_LABELS: Record<GraphNodeKind, string> = {
+  page: 'Page',
+  component: 'Component',
+  action: 'Custom action',
+  function: 'Custom function',
+  widget: 'Custom widget',
+  collection: 'Collection',
+  appState: 'App state variable',
+};
+
+// Mermaid node shapes per kind, so the diagram reads without a legend
+const MERMAID_SHAPES: Record<GraphNodeKind, [string, string]> = {
+  page: ['[', ']'],
+  component: ['(', ')'],
+  action: ['[[', ']]'],
+  function: ['[[', ']]'],
+  widget: ['[[', ']]'],
+  collection: ['[(', ')]'],
+  appState: ['{{', '}}'],
+};
+
+const DOT_SHAPES: Record<GraphNodeKind, string> = {
+  page: 'box',
+  component: 'ellipse',
+  action: 'component',
+  function: 'component',
+  widget: 'component',
+  collection: 'cylinder',
+  appState: 'hexagon',
+};
+
+function label(kind: GraphNodeKind, name: string): string {
+  return `${NODE_KIND_LABELS[kind]}: ${name}`;
+}
+
+/**
+ * Renders the graph as a Mermaid flowchart. Node ids are replaced by short
+ * generated ones because Mermaid ids can't hold arbitrary names.
+ */
+export function toMermaid(graph: ReferenceGraph): string {
+  const ids = new Map(graph.nodes.map((node, index) => [node.id, `n${index}`]));
+  const escape = (text: string) => text.replace(/"/g, '#quot;');
+
+  return [
+    'flowchart LR',
+    ...graph.nodes.map(node => {
+      const [open, close] = MERMAID_SHAPES[node.kind];
+      return `  ${ids.get(node.id)}${open}"${escape(label(node.kind, node.name))}"${close}`;
+    }),
+    ...graph.edges.map(edge => `  ${ids.get(edge.from)} --> ${ids.get(edge.to)}`),
+  ].join('\n');
+}
+
+export function toDot(graph: ReferenceGraph): string {
+  const quote = (text: string) => `"${text.replace(/\\/g, '\\\\').replace(/"/g, '\\"')}"`;
+
+  return [
+    'digraph dependencies {',
+    '  rankdir=LR;',
+    ...graph.nodes.map(node =>
+      `  ${quote(node.id)} [label=${quote(label(node.kind, node.name))}, shape=${DOT_SHAPES[node.kind]}];`
+    ),
+    ...graph.edges.map(edge => `  ${quote(edge.from)} -> ${quote(edge.to)};`),
+    '}',
+  ].join('\n');
+}
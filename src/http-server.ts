@@ -0,0 +1,279 @@
+import http, { IncomingMessage, ServerResponse } from 'http';
+import { AddressInfo } from 'net';
+import { randomUUID, timingSafeEqual } from 'crypto';
+import { Server } from '@modelcontextprotocol/sdk/server/index.js';
+import { StreamableHTTPServerTransport } from '@modelcontextprotocol/sdk/server/streamableHttp.js';
+import { SSEServerTransport } from '@modelcontextprotocol/sdk/server/sse.js';
+import { isInitializeRequest } from '@modelcontextprotocol/sdk/types.js';
+import { InvalidArgumentError } from './errors.js';
+import { LogScope, createLogger, runWithLogScope } from './logger.js';
+import { isLoopbackHost } from './transport-config.js';
+
+const logger = createLogger('http');
+
+export const MCP_PATH = '/mcp';
+export const SSE_PATH = '/sse';
+export const SSE_MESSAGES_PATH = '/messages';
+// Lets each client session act on its own FlutterFlow account
+export const FLUTTERFLOW_TOKEN_HEADER = 'x-flutterflow-token';
+
+export interface HttpServerOptions {
+  host: string;
+  port: number;
+  // Required unless host is a loopback address
+  authToken?: string;
+  /**
+   * Builds the MCP server for a new session. flutterflowToken is taken from
+   * the X-FlutterFlow-Token header and is undefined when the client sent none.
+   */
+  createSession: (flutterflowToken?: string) => Server;
+}
+
+export interface McpHttpServer {
+  httpServer: http.Server;
+  url: string;
+  close(): Promise<void>;
+}
+
+interface Session {
+  server: Server;
+  transport: StreamableHTTPServerTransport | SSEServerTransport;
+  logScope: LogScope;
+}
+
+function headerValue(req: IncomingMessage, name: string): string | undefined {
+  const value = req.headers[name];
+  return Array.isArray(value) ? value[0] : value;
+}
+
+function sendJson(res: ServerResponse, status: number, body: unknown, headers: Record<string, string> = {}): void {
+  res.writeHead(status, { 'Content-Type': 'application/json', ...headers });
+  res.end(JSON.stringify(body));
+}
+
+function sendJsonRpcError(res: ServerResponse, status: number, code: number, message: string): void {
+  sendJson(res, status, { jsonrpc: '2.0', error: { code, message }, id: null });
+}
+
+async function readJsonBody(req: IncomingMessage): Promise<unknown> {
+  const chunks: Buffer[] = [];
+  for await (const chunk of req) {
+    chunks.push(typeof chunk === 'string' ? Buffer.from(chunk) : chunk);
+  }
+  const raw = Buffer.concat(chunks).toString('utf8');
+  return raw ? JSON.parse(raw) : undefined;
+}
+
+export function isAuthorized(req: IncomingMessage, authToken?: string): boolean {
+  if (!authToken) {
+    return true;
+  }
+  const match = /^Bearer\s+(.+)$/i.exec(headerValue(req, 'authorization') ?? '');
+  if (!match) {
+    return false;
+  }
+  const expected = Buffer.from(authToken);
+  const actual = Buffer.from(match[1].trim());
+  return expected.length === actual.length && timingSafeEqual(expected, actual);
+}
+
+const LOOPBACK_NAMES = ['localhost', '127.0.0.1', '[::1]'];
+
+/**
+ * Host headers a browser sends when it talks to a server bound to loopback on
+ * `port`. Anything else means a page on another site got here by rebinding
+ * its own domain name to 127.0.0.1.
+ */
+function loopbackHosts(boundHost: string, port: number): string[] {
+  return [...new Set([...LOOPBACK_NAMES, boundHost])].map(name => `${name}:${port}`);
+}
+
+/**
+ * Checks Host, and Origin when a browser sent one, against the allowed hosts.
+ * Returns the reason a request is refused, or undefined when it may proceed.
+ */
+function rebindingViolation(req: IncomingMessage, allowedHosts: string[]): string | undefined {
+  const host = headerValue(req, 'host')?.toLowerCase();
+  if (!host || !allowedHosts.includes(host)) {
+    return `Invalid Host header: ${host ?? '(none)'}`;
+  }
+  const origin = headerValue(req, 'origin');
+  if (origin !== undefined && !allowedHosts.some(allowed => origin.toLowerCase() === `http://${allowed}`)) {
+    return `Invalid Origin header: ${origin}`;
+  }
+  return undefined;
+}
+
+/**
+ * Serves MCP over Streamable HTTP at /mcp, plus the legacy HTTP+SSE transport
+ * (GET /sse, POST /messages) for older clients. Every session gets its own
+ * server instance so sessions can use different FlutterFlow tokens.
+ */
+export async function startHttpServer(options: HttpServerOptions): Promise<McpHttpServer> {
+  if (!options.authToken && !isLoopbackHost(options.host)) {
+    throw new InvalidArgumentError(`An auth token is required to serve MCP on ${options.host}`);
+  }
+  const sessions = new Map<string, Session>();
+  // Filled in once the port is known; stays undefined off loopback, where the
+  // auth token guards the server and clients may use any name for it
+  let allowedHosts: string[] | undefined;
+
+  function createSession(req: IncomingMessage, transport: Session['transport']): Session {
+    const server = options.createSession(headerValue(req, FLUTTERFLOW_TOKEN_HEADER));
+    return {
+      server,
+      transport,
+      logScope: { sink: (level, loggerName, data) => server.sendLoggingMessage({ level, logger: loggerName, data }) },
+    };
+  }
+
+  async function handleStreamableRequest(req: IncomingMessage, res: ServerResponse): Promise<void> {
+    let body: unknown;
+    if (req.method === 'POST') {
+      try {
+        body = await readJsonBody(req);
+      } catch {
+        sendJsonRpcError(res, 400, -32700, 'Parse error: request body is not valid JSON');
+        return;
+      }
+    }
+
+    const sessionId = headerValue(req, 'mcp-session-id');
+    let session = sessionId ? sessions.get(sessionId) : undefined;
+
+    if (sessionId && !(session?.transport instanceof StreamableHTTPServerTransport)) {
+      sendJsonRpcError(res, 404, -32001, `Session not found: ${sessionId}`);
+      return;
+    }
+
+    if (!session) {
+      if (req.method !== 'POST' || !isInitializeRequest(body)) {
+        sendJsonRpcError(res, 400, -32000, 'Bad Request: missing Mcp-Session-Id header');
+        return;
+      }
+
+      const transport: StreamableHTTPServerTransport = new StreamableHTTPServerTransport({
+        sessionIdGenerator: () => randomUUID(),
+        enableDnsRebindingProtection: allowedHosts !== undefined,
+        allowedHosts,
+        onsessioninitialized: (id) => {
+          sessions.set(id, newSession);
+          logger.debug(`Session ${id} started (streamable HTTP)`);
+        },
+      });
+      const newSession = createSession(req, transport);
+      newSession.server.onclose = () => {
+        if (transport.sessionId) {
+          sessions.delete(transport.sessionId);
+          logger.debug(`Session ${transport.sessionId} closed`);
+        }
+      };
+      await newSession.server.connect(transport);
+      session = newSession;
+    }
+
+    const active = session;
+    await runWithLogScope(active.logScope, () =>
+      (active.transport as StreamableHTTPServerTransport).handleRequest(req, res, body)
+    );
+  }
+
+  async function openSseStream(req: IncomingMessage, res: ServerResponse): Promise<void> {
+    const transport = new SSEServerTransport(SSE_MESSAGES_PATH, res, {
+      enableDnsRebindingProtection: allowedHosts !== undefined,
+      allowedHosts,
+    });
+    const session = createSession(req, transport);
+    sessions.set(transport.sessionId, session);
+    session.server.onclose = () => {
+      sessions.delete(transport.sessionId);
+      logger.debug(`Session ${transport.sessionId} closed`);
+    };
+    await session.server.connect(transport);
+    logger.debug(`Session ${transport.sessionId} started (SSE)`);
+  }
+
+  async function handleSseMessage(req: IncomingMessage, res: ServerResponse, url: URL): Promise<void> {
+    const sessionId = url.searchParams.get('sessionId') ?? '';
+    const session = sessions.get(sessionId);
+    if (!session || !(session.transport instanceof SSEServerTransport)) {
+      sendJsonRpcError(res, 404, -32001, `Session not found: ${sessionId}`);
+      return;
+    }
+
+    let body: unknown;
+    try {
+      body = await readJsonBody(req);
+    } catch {
+      sendJsonRpcError(res, 400, -32700, 'Parse error: request body is not valid JSON');
+      return;
+    }
+
+    const transport = session.transport;
+    await runWithLogScope(session.logScope, () => transport.handlePostMessage(req, res, body));
+  }
+
+  async function handleRequest(req: IncomingMessage, res: ServerResponse): Promise<void> {
+    const url = new URL(req.url ?? '/', 'http://localhost');
+
+    const violation = allowedHosts && rebindingViolation(req, allowedHosts);
+    if (violation) {
+      logger.warning(`Refused ${req.method} ${url.pathname}: ${violation}`);
+      sendJson(res, 403, { error: violation });
+      return;
+    }
+
+    if (!isAuthorized(req, options.authToken)) {
+      sendJson(res, 401, { error: 'Unauthorized' }, { 'WWW-Authenticate': 'Bearer' });
+      return;
+    }
+
+    if (url.pathname === MCP_PATH) {
+      await handleStreamableRequest(req, res);
+    } else if (url.pathname === SSE_PATH && req.method === 'GET') {
+      await openSseStream(req, res);
+    } else if (url.pathname === SSE_MESSAGES_PATH && req.method === 'POST') {
+      await handleSseMessage(req, res, url);
+    } else {
+      sendJson(res, 404, { error: `Not found: ${req.method} ${url.pathname}` });
+    }
+  }
+
+  const httpServer = http.createServer((req, res) => {
+    handleRequest(req, res).catch((error) => {
+      logger.error('HTTP request failed', { error: error instanceof Error ? error.message : String(error) });
+      if (!res.headersSent) {
+        sendJsonRpcError(res, 500, -32603, error instanceof Error ? error.message : 'Internal server error');
+      } else {
+        res.end();
+      }
+    });
+  });
+
+  await new Promise<void>((resolve, reject) => {
+    httpServer.once('error', reject);
+    httpServer.listen(options.port, options.host, () => {
+      httpServer.off('error', reject);
+      resolve();
+    });
+  });
+
+  const address = httpServer.address() as AddressInfo;
+  const host = address.family === 'IPv6' ? `[${address.address}]` : address.address;
+  if (isLoopbackHost(options.host)) {
+    allowedHosts = loopbackHosts(host, address.port);
+  }
+
+  return {
+    httpServer,
+    url: `http://${host}:${address.port}`,
+    async close() {
+      for (const session of [...sessions.values()]) {
+        await session.server.close();
+      }
+      sessions.clear();
+      httpServer.closeAllConnections();
+      await new Promise<void>(resolve => httpServer.close(() => resolve()));
+    },
+  };
+}
@@ -0,0 +1,226 @@
+import { isDeepStrictEqual } from 'util';
+import { PatchError } from './errors.js';
+
+export interface JsonPatchOperation {
+  op: 'add' | 'remove' | 'replace' | 'move' | 'copy' | 'test';
+  path: string;
+  from?: string;
+  value?: any;
+}
+
+const VALID_OPS = ['add', 'remove', 'replace', 'move', 'copy', 'test'];
+
+// Keys that would reach Object.prototype or a constructor instead of data
+const FORBIDDEN_KEYS = ['__proto__', 'constructor', 'prototype'];
+
+function isObject(value: unknown): value is Record<string, any> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function hasKey(object: Record<string, any>, key: string): boolean {
+  return Object.hasOwn(object, key);
+}
+
+/**
+ * Splits an RFC 6901 JSON Pointer into unescaped reference tokens.
+ */
+export function parseJsonPointer(pointer: string): string[] {
+  if (pointer === '') {
+    return [];
+  }
+  if (!pointer.startsWith('/')) {
+    throw new PatchError(`Invalid JSON Pointer "${pointer}": must be empty or start with "/"`, pointer);
+  }
+  const tokens = pointer
+    .slice(1)
+    .split('/')
+    .map(token => token.replace(/~1/g, '/').replace(/~0/g, '~'));
+  const forbidden = tokens.find(token => FORBIDDEN_KEYS.includes(token));
+  if (forbidden !== undefined) {
+    throw new PatchError(`Invalid JSON Pointer "${pointer}": "${forbidden}" is not an allowed key`, pointer);
+  }
+  return tokens;
+}
+
+function resolveArrayIndex(array: any[], token: string, pointer: string, allowEnd: boolean, index?: number): number {
+  if (allowEnd && token === '-') {
+    return array.length;
+  }
+  if (!/^(0|[1-9]\d*)$/.test(token)) {
+    throw new PatchError(`Path "${pointer}" does not exist: "${token}" is not a valid array index`, pointer, index);
+  }
+  const position = parseInt(token, 10);
+  const limit = allowEnd ? array.length : array.length - 1;
+  if (position > limit) {
+    throw new PatchError(`Path "${pointer}" does not exist: index ${position} is out of bounds (length ${array.length})`, pointer, index);
+  }
+  return position;
+}
+
+/**
+ * Walks to the container holding the last token of the pointer, reporting
+ * the first missing segment when the path does not exist.
+ */
+function resolveParent(document: any, pointer: string, index?: number): { parent: any; key: string } {
+  const tokens = parseJsonPointer(pointer);
+  if (tokens.length === 0) {
+    throw new PatchError('Operations on the document root are not supported', pointer, index);
+  }
+
+  let current = document;
+  for (let i = 0; i < tokens.length - 1; i++) {
+    const token = tokens[i];
+    const traversed = '/' + tokens.slice(0, i + 1).join('/');
+    if (Array.isArray(current) && /^(0|[1-9]\d*)$/.test(token) && parseInt(token, 10) < current.length) {
+      current = current[parseInt(token, 10)];
+    } else if (isObject(current) && hasKey(current, token)) {
+      current = current[token];
+    } else {
+      throw new PatchError(`Path "${pointer}" does not exist: "${traversed}" not found`, pointer, index);
+    }
+  }
+
+  if (!Array.isArray(current) && !isObject(current)) {
+    throw new PatchError(`Path "${pointer}" does not exist: parent is not an object or array`, pointer, index);
+  }
+
+  return { parent: current, key: tokens[tokens.length - 1] };
+}
+
+function getValue(document: any, pointer: string, index?: number): any {
+  const { parent, key } = resolveParent(document, pointer, index);
+  if (Array.isArray(parent)) {
+    return parent[resolveArrayIndex(parent, key, pointer, false, index)];
+  }
+  if (!hasKey(parent, key)) {
+    throw new PatchError(`Path "${pointer}" does not exist`, pointer, index);
+  }
+  return parent[key];
+}
+
+function addValue(document: any, pointer: string, value: any, index?: number): void {
+  const { parent, key } = resolveParent(document, pointer, index);
+  if (Array.isArray(parent)) {
+    parent.splice(resolveArrayIndex(parent, key, pointer, true, index), 0, value);
+  } else {
+    parent[key] = value;
+  }
+}
+
+function removeValue(document: any, pointer: string, index?: number): any {
+  const { parent, key } = resolveParent(document, pointer, index);
+  if (Array.isArray(parent)) {
+    return parent.splice(resolveArrayIndex(parent, key, pointer, false, index), 1)[0];
+  }
+  if (!hasKey(parent, key)) {
+    throw new PatchError(`Path "${pointer}" does not exist`, pointer, index);
+  }
+  const removed = parent[key];
+  delete parent[key];
+  return removed;
+}
+
+/**
+ * Applies an RFC 6902 JSON Patch. The input is never mutated: operations run
+ * against a copy, so a failing operation leaves the original untouched.
+ */
+export function applyJsonPatch<T>(document: T, operations: JsonPatchOperation[]): T {
+  const result = structuredClone(document);
+
+  operations.forEach((operation, index) => {
+    if (!operation || typeof operation.path !== 'string' || !VALID_OPS.includes(operation.op)) {
+      throw new PatchError(
+        `Patch operation ${index} is invalid: expected { op, path } with op one of ${VALID_OPS.join(', ')}`,
+        operation?.path ?? '',
+        index
+      );
+    }
+
+    try {
+      applyOperation(result, operation, index);
+    } catch (error) {
+      if (error instanceof PatchError && !error.message.startsWith('Patch operation')) {
+        throw new PatchError(`Patch operation ${index} (${operation.op}) failed: ${error.message}`, error.path, index);
+      }
+      throw error;
+    }
+  });
+
+  return result;
+}
+
+function applyOperation(result: any, operation: JsonPatchOperation, index: number): void {
+  const { op, path } = operation;
+  switch (op) {
+    case 'add':
+      addValue(result, path, structuredClone(operation.value), index);
+      break;
+    case 'remove':
+      removeValue(result, path, index);
+      break;
+    case 'replace':
+      // replace requires the target to exist
+      getValue(result, path, index);
+      removeValue(result, path, index);
+      addValue(result, path, structuredClone(operation.value), index);
+      break;
+    case 'move': {
+      if (operation.from === undefined) {
+        throw new PatchError(`Patch operation ${index} (move) is missing "from"`, path, index);
+      }
+      if (path.startsWith(operation.from + '/')) {
+        throw new PatchError(`Patch operation ${index} (move) cannot move "${operation.from}" into its own child`, path, index);
+      }
+      const value = removeValue(result, operation.from, index);
+      addValue(result, path, value, index);
+      break;
+    }
+    case 'copy': {
+      if (operation.from === undefined) {
+        throw new PatchError(`Patch operation ${index} (copy) is missing "from"`, path, index);
+      }
+      addValue(result, path, structuredClone(getValue(result, operation.from, index)), index);
+      break;
+    }
+    case 'test': {
+      const actual = getValue(result, path, index);
+      // Cloned like the document, so both sides have the same prototypes even
+      // when the value was built in another realm
+      if (!isDeepStrictEqual(actual, structuredClone(operation.value))) {
+        throw new PatchError(`Patch operation ${index} (test) failed: value at "${path}" does not match`, path, index);
+      }
+      break;
+    }
+  }
+}
+
+/**
+ * Applies an RFC 7396 JSON Merge Patch: objects merge recursively, null
+ * removes a key, and any other value (including arrays) replaces the target.
+ */
+export function applyMergePatch(target: any, patch: any): any {
+  if (!isObject(patch)) {
+    return structuredClone(patch);
+  }
+
+  const result: Record<string, any> = isObject(target) ? { ...target } : {};
+  Object.entries(patch).forEach(([key, value]) => {
+    if (FORBIDDEN_KEYS.includes(key)) {
+      throw new PatchError(`Merge patch key "${key}" is not allowed`, '/' + key);
+    }
+    if (value === null) {
+      delete result[key];
+    } else {
+      result[key] = applyMergePatch(result[key], value);
+    }
+  });
+  return result;
+}
+
+/**
+ * Applies either patch flavour: arrays are treated as JSON Patch, objects as
+ * merge patches.
+ */
+export function applyPatch<T>(document: T, patch: JsonPatchOperation[] | Record<string, any>): T {
+  return Array.isArray(patch) ? applyJsonPatch(document, patch) : applyMergePatch(document, patch);
+}
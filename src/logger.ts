@@ -0,0 +1,117 @@
+import { AsyncLocalStorage } from 'async_hooks';
+import { LoggingLevel } from '@modelcontextprotocol/sdk/types.js';
+
+export type LogLevel = LoggingLevel;
+
+// Ordered from least to most severe, matching the MCP / syslog levels
+export const LOG_LEVELS: LogLevel[] = ['debug', 'info', 'notice', 'warning', 'error', 'critical', 'alert', 'emergency'];
+
+export type LogSink = (level: LogLevel, logger: string, data: unknown) => void | Promise<void>;
+
+/**
+ * Default sink used until the MCP server is connected. Writes to stderr only:
+ * stdout carries the JSON-RPC stream for the stdio transport.
+ */
+const stderrSink: LogSink = (level, logger, data) => {
+  const message = typeof data === 'string' ? data : JSON.stringify(data);
+  console.error(`[${logger}] ${level}: ${message}`);
+};
+
+function parseLevel(value: string | undefined): LogLevel | undefined {
+  return LOG_LEVELS.find(level => level === value);
+}
+
+/**
+ * Where one session's log records go. level is what that session asked for
+ * through logging/setLevel; unset falls back to the process-wide level.
+ */
+export interface LogScope {
+  sink: LogSink;
+  level?: LogLevel;
+}
+
+let currentLevel: LogLevel = parseLevel(process.env.FLUTTERFLOW_LOG_LEVEL) ?? 'info';
+let currentSink: LogSink = stderrSink;
+const currentScope = new AsyncLocalStorage<LogScope>();
+
+export function setLogLevel(level: LogLevel): void {
+  currentLevel = level;
+}
+
+/**
+ * Handles logging/setLevel: changes the level of the calling session's scope,
+ * or the process-wide level outside of one (stdio serves a single session).
+ */
+export function setSessionLogLevel(level: LogLevel): void {
+  const scope = currentScope.getStore();
+  if (scope) {
+    scope.level = level;
+  } else {
+    setLogLevel(level);
+  }
+}
+
+export function getLogLevel(): LogLevel {
+  return currentLevel;
+}
+
+/**
+ * Routes log records somewhere else, e.g. MCP `notifications/message`.
+ * Passing undefined restores the stderr sink.
+ */
+export function setLogSink(sink: LogSink | undefined): void {
+  currentSink = sink ?? stderrSink;
+}
+
+/**
+ * Runs fn with log records routed to the scope's sink and filtered by its
+ * level instead of the global ones. The HTTP transports keep one scope per
+ * session so each session only sees its own log notifications, at its own level.
+ */
+export function runWithLogScope<T>(scope: LogScope, fn: () => T): T {
+  return currentScope.run(scope, fn);
+}
+
+function isEnabled(level: LogLevel, scope?: LogScope): boolean {
+  return LOG_LEVELS.indexOf(level) >= LOG_LEVELS.indexOf(scope?.level ?? currentLevel);
+}
+
+export class Logger {
+  constructor(private name: string) {}
+
+  debug(message: string, details?: Record<string, unknown>): void {
+    this.log('debug', message, details);
+  }
+
+  info(message: string, details?: Record<string, unknown>): void {
+    this.log('info', message, details);
+  }
+
+  warning(message: string, details?: Record<string, unknown>): void {
+    this.log('warning', message, details);
+  }
+
+  error(message: string, details?: Record<string, unknown>): void {
+    this.log('error', message, details);
+  }
+
+  log(level: LogLevel, message: string, details?: Record<string, unknown>): void {
+    const scope = currentScope.getStore();
+    if (!isEnabled(level, scope)) {
+      return;
+    }
+
+    const data = details ? { message, ...details } : message;
+    const sink = scope?.sink ?? currentSink;
+    try {
+      // Sinks may be async; a failed delivery must never break the caller
+      Promise.resolve(sink(level, this.name, data)).catch(() => stderrSink(level, this.name, data));
+    } catch {
+      stderrSink(level, this.name, data);
+    }
+  }
+}
+
+export function createLogger(name: string): Logger {
+  return new Logger(name);
+}
@@ -0,0 +1,57 @@
+import { ProgressToken, ServerNotification } from '@modelcontextprotocol/sdk/types.js';
+import { CancelledError } from './errors.js';
+
+export type ProgressStage = 'download' | 'unzip' | 'parse' | 'encode' | 'upload';
+
+export interface ProgressUpdate {
+  stage: ProgressStage;
+  message: string;
+  // Position within the stage, e.g. files parsed so far out of total
+  completed?: number;
+  total?: number;
+}
+
+export type ProgressReporter = (update: ProgressUpdate) => void;
+
+/**
+ * Threaded through long-running operations (API calls, decoding) so they
+ * can report what they are doing and stop early when the request is
+ * cancelled.
+ */
+export interface OperationOptions {
+  signal?: AbortSignal;
+  onProgress?: ProgressReporter;
+}
+
+export function throwIfAborted(signal?: AbortSignal): void {
+  if (signal?.aborted) {
+    throw new CancelledError('The request was cancelled');
+  }
+}
+
+/**
+ * Turns stage updates into notifications/progress for the request's
+ * progress token. MCP requires progress to increase with every
+ * notification, so it counts notifications while the message carries the
+ * stage and its own counts. Without a token, progress isn't reported.
+ */
+export function createProgressReporter(
+  progressToken: ProgressToken | undefined,
+  sendNotification: (notification: ServerNotification) => Promise<void>
+): ProgressReporter | undefined {
+  if (progressToken === undefined) {
+    return undefined;
+  }
+
+  let progress = 0;
+  return ({ stage, message, completed, total }) => {
+    progress++;
+    const counts = completed !== undefined && total !== undefined ? ` (${completed}/${total})` : '';
+    sendNotification({
+      method: 'notifications/progress',
+      params: { progressToken, progress, message: `${stage}: ${message}${counts}` },
+    }).catch(() => {
+      // The client may already be gone; progress is best effort
+    });
+  };
+}
@@ -0,0 +1,95 @@
+import { z } from 'zod';
+import { FlutterFlowAPI, Project } from './flutterflow-api.js';
+import { AmbiguousProjectError, InvalidArgumentError, NotFoundError } from './errors.js';
+import { OperationOptions } from './progress.js';
+
+/**
+ * The ways a tool call can point at a project. `project` accepts an ID or a
+ * name; `projectId` and `projectName` are the older, explicit forms.
+ */
+export const ProjectReferenceSchema = z.object({
+  project: z.string().optional()
+    .describe('Project ID or name. Names are matched exactly first, then loosely (case, spacing, partial names, small typos) as long as only one project matches'),
+  projectId: z.string().optional().describe('The FlutterFlow project ID'),
+  projectName: z.string().optional().describe('Name of the FlutterFlow project (alternative to projectId)'),
+});
+
+export type ProjectReference = z.infer<typeof ProjectReferenceSchema>;
+
+function normalize(value: string): string {
+  return value.toLowerCase().replace(/[^a-z0-9]/g, '');
+}
+
+function editDistance(a: string, b: string): number {
+  let previous = Array.from({ length: b.length + 1 }, (_, i) => i);
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i];
+    for (let j = 1; j <= b.length; j++) {
+      const cost = a[i - 1] === b[j - 1] ? 0 : 1;
+      current[j] = Math.min(previous[j] + 1, current[j - 1] + 1, previous[j - 1] + cost);
+    }
+    previous = current;
+  }
+  return previous[b.length];
+}
+
+/**
+ * Finds the single project a reference points at. Matching runs from strict
+ * to loose: ID, exact name, case-insensitive name, name ignoring punctuation,
+ * partial name, then names within a small edit distance. The first rule that
+ * matches anything decides; several matches there is an ambiguity error
+ * listing the candidates rather than a guess.
+ */
+export function matchProject(projects: Project[], reference: string, options: { matchIds?: boolean } = {}): Project {
+  const normalized = normalize(reference);
+  const maxDistance = Math.min(2, Math.floor(normalized.length / 4));
+
+  const rules: Array<(project: Project) => boolean> = [
+    ...(options.matchIds !== false ? [(project: Project) => project.projectId === reference] : []),
+    project => project.name === reference,
+    project => project.name.toLowerCase() === reference.toLowerCase(),
+    project => normalized !== '' && normalize(project.name) === normalized,
+    project => normalized !== '' && normalize(project.name).includes(normalized),
+    project => maxDistance > 0 && editDistance(normalize(project.name), normalized) <= maxDistance,
+  ];
+
+  for (const rule of rules) {
+    const matches = projects.filter(rule);
+    if (matches.length === 1) {
+      return matches[0];
+    }
+    if (matches.length > 1) {
+      const candidates = matches.map(({ projectId, name }) => ({ projectId, name }));
+      throw new AmbiguousProjectError(
+        `Project reference "${reference}" matches ${matches.length} projects: `
+          + candidates.map(c => `"${c.name}" (${c.projectId})`).join(', ')
+          + '. Use the project ID or the exact name.',
+        candidates
+      );
+    }
+  }
+
+  throw new NotFoundError(`Project not found: ${reference}`);
+}
+
+/**
+ * Resolves any project reference to a project ID. An explicit projectId is
+ * trusted as-is; everything else is looked up in the project list.
+ */
+export async function resolveProjectReference(
+  api: FlutterFlowAPI,
+  reference: ProjectReference,
+  options: OperationOptions = {}
+): Promise<string> {
+  if (reference.projectId) {
+    return reference.projectId;
+  }
+
+  const value = reference.project ?? reference.projectName;
+  if (!value) {
+    throw new InvalidArgumentError('A project is required: pass project (ID or name), projectId or projectName');
+  }
+
+  const projects = await api.listProjects(options);
+  return matchProject(projects, value, { matchIds: reference.project !== undefined }).projectId;
+}
@@ -0,0 +1,64 @@
+import { z } from 'zod';
+import { YamlUtils } from '../yaml-utils.js';
+import { operationOptions, resolveProjectId } from '../tools/shared.js';
+import { ProjectArgumentSchema, jsonBlock, userMessage } from './shared.js';
+import { definePrompt } from './types.js';
+
+export const auditProjectPrompt = definePrompt({
+  name: 'audit_project',
+  title: 'Audit project',
+  description: 'Review a FlutterFlow project for structural problems, inconsistencies and cleanup opportunities',
+  argsSchema: z.object({
+    project: ProjectArgumentSchema,
+  }),
+  async handler(args, context) {
+    const projectId = await resolveProjectId(context, args);
+    const files = await context.profileContext.snapshotCache.getProjectFiles(projectId, operationOptions(context));
+    const customCode = YamlUtils.extractCustomCode(files);
+
+    const overview = {
+      projectId,
+      totalFiles: Object.keys(files).length,
+      pages: YamlUtils.extractPages(files).map(page => ({
+        name: page.name,
+        route: page.route,
+        widgets: page.widgets.length,
+        actions: page.actions.length,
+      })),
+      components: YamlUtils.extractComponents(files).map(component => ({
+        name: component.name,
+        properties: Object.keys(component.properties),
+        widgets: component.widgets.length,
+      })),
+      collections: YamlUtils.extractDatabaseCollections(files).map(collection => ({
+        name: collection.name,
+        fields: collection.fields,
+        indexes: collection.indexes.length,
+      })),
+      customCode: {
+        actions: customCode.actions.map(action => action.name),
+        functions: customCode.functions.map(fn => fn.name),
+        widgets: customCode.widgets.map(widget => widget.name),
+      },
+      appState: YamlUtils.extractAppState(files),
+    };
+
+    return [
+      userMessage([
+        `Audit the FlutterFlow project ${projectId}. Its structure is below.`,
+        '',
+        jsonBlock(overview),
+        '',
+        'Report, grouped by severity:',
+        '1. Pages without a route, duplicate routes, and pages or components with no widgets',
+        '2. Naming inconsistencies across pages, components, collections and custom code',
+        '3. Collections without fields or with fields that look unused or mistyped',
+        '4. App state variables and custom code that nothing appears to use',
+        '5. Anything else that would make the project hard to maintain',
+        '',
+        'For each finding, name the affected file and suggest a concrete fix. Use the read tools '
+          + '(get_pages, get_components, get_custom_code) if you need more detail, and do not change the project.',
+      ].join('\n')),
+    ];
+  },
+});
@@ -0,0 +1,48 @@
+import { z } from 'zod';
+import { YamlUtils } from '../yaml-utils.js';
+import { operationOptions, resolveProjectId } from '../tools/shared.js';
+import { ProjectArgumentSchema, jsonBlock, userMessage } from './shared.js';
+import { definePrompt } from './types.js';
+
+export const crudPageForCollectionPrompt = definePrompt({
+  name: 'crud_page_for_collection',
+  title: 'Add CRUD page for collection',
+  description: 'Plan and build a page that lists, creates, edits and deletes documents of a database collection',
+  argsSchema: z.object({
+    project: ProjectArgumentSchema,
+    collection: z.string().describe('Name of the database collection'),
+  }),
+  async handler(args, context) {
+    const projectId = await resolveProjectId(context, args);
+    const files = await context.profileContext.snapshotCache.getProjectFiles(projectId, {
+      partitions: ['collections', 'pages', 'components'],
+      ...operationOptions(context),
+    });
+    const collection = YamlUtils.findByName(YamlUtils.extractDatabaseCollections(files), args.collection, 'Collection');
+    const pages = YamlUtils.extractPages(files).map(page => ({ name: page.name, route: page.route }));
+    const components = YamlUtils.extractComponents(files).map(component => component.name);
+
+    return [
+      userMessage([
+        `Add a CRUD page for the "${collection.name}" collection to FlutterFlow project ${projectId}.`,
+        '',
+        'Collection definition:',
+        jsonBlock(collection.definition),
+        '',
+        'Existing pages (follow their naming and route conventions):',
+        jsonBlock(pages),
+        '',
+        'Existing components that may be reused:',
+        jsonBlock(components),
+        '',
+        'The page should:',
+        '- List documents with the most meaningful fields as a summary',
+        '- Create and edit documents with a form that has an input per field, matching the field types',
+        '- Delete documents after a confirmation dialog',
+        '',
+        'Propose the page name, route and widget tree first. Then build it with update_project_yaml '
+          + 'or update_page using dryRun: true, show me the diff, and only commit once I agree.',
+      ].join('\n')),
+    ];
+  },
+});
@@ -0,0 +1,42 @@
+import { z } from 'zod';
+import { YamlUtils } from '../yaml-utils.js';
+import { operationOptions, resolveProjectId } from '../tools/shared.js';
+import { ProjectArgumentSchema, jsonBlock, outlineWidgets, userMessage } from './shared.js';
+import { definePrompt } from './types.js';
+
+export const explainPageWidgetTreePrompt = definePrompt({
+  name: 'explain_page_widget_tree',
+  title: "Explain page's widget tree",
+  description: 'Walk through the widget tree, components and actions of a page',
+  argsSchema: z.object({
+    project: ProjectArgumentSchema,
+    page: z.string().describe('Name of the page'),
+  }),
+  async handler(args, context) {
+    const projectId = await resolveProjectId(context, args);
+    const files = await context.profileContext.snapshotCache.getProjectFiles(projectId, {
+      partitions: ['pages', 'components'],
+      ...operationOptions(context),
+    });
+    const page = YamlUtils.findByName(YamlUtils.extractPages(files), args.page, 'Page');
+    const componentNames = new Set(YamlUtils.extractComponents(files).map(component => component.name));
+
+    return [
+      userMessage([
+        `Explain the widget tree of the "${page.name}" page (${page.filename}) in FlutterFlow project ${projectId}.`,
+        '',
+        'Outline:',
+        outlineWidgets(page.widgets) || '(no widgets)',
+        '',
+        'Full page definition:',
+        jsonBlock(page.definition),
+        '',
+        `Project components: ${[...componentNames].join(', ') || 'none'}`,
+        '',
+        'Describe the layout from the outside in, what each section is for, which widgets are project '
+          + 'components rather than built-ins, and what the page actions do. Point out deeply nested or '
+          + 'repeated structures that could be extracted into components.',
+      ].join('\n')),
+    ];
+  },
+});
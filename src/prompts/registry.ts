@@ -0,0 +1,77 @@
+import { z } from 'zod';
+import { GetPromptResult, Prompt } from '@modelcontextprotocol/sdk/types.js';
+import { ArgumentValidationError, InvalidArgumentError } from '../errors.js';
+import { describeIssues } from '../tools/registry.js';
+import { ToolContext } from '../tools/types.js';
+import { PromptDefinition } from './types.js';
+import { auditProjectPrompt } from './audit-project.js';
+import { crudPageForCollectionPrompt } from './crud-page-for-collection.js';
+import { explainPageWidgetTreePrompt } from './explain-page-widget-tree.js';
+import { reviewCustomCodePrompt } from './review-custom-code.js';
+
+type AnyPromptDefinition = PromptDefinition<any>;
+
+export const promptDefinitions: AnyPromptDefinition[] = [
+  auditProjectPrompt,
+  crudPageForCollectionPrompt,
+  explainPageWidgetTreePrompt,
+  reviewCustomCodePrompt,
+];
+
+// Prompts, like tools, can run against any configured credentials profile
+const ProfileArgumentSchema = z.object({
+  profile: z.string().optional().describe('Credentials profile to use. Defaults to the default profile'),
+});
+
+function argsSchemaFor(prompt: AnyPromptDefinition): z.AnyZodObject {
+  return prompt.argsSchema.merge(ProfileArgumentSchema);
+}
+
+export function findPrompt(name: string): AnyPromptDefinition {
+  const prompt = promptDefinitions.find(definition => definition.name === name);
+  if (!prompt) {
+    throw new InvalidArgumentError(`Unknown prompt: ${name}`);
+  }
+  return prompt;
+}
+
+export function listPrompts(): Prompt[] {
+  return promptDefinitions.map(prompt => ({
+    name: prompt.name,
+    title: prompt.title,
+    description: prompt.description,
+    arguments: Object.entries(argsSchemaFor(prompt).shape as Record<string, z.ZodTypeAny>).map(([name, schema]) => ({
+      name,
+      description: schema.description,
+      required: !schema.isOptional(),
+    })),
+  }));
+}
+
+/**
+ * Validates the arguments and builds the prompt's messages with data from
+ * the requested profile. Unlike tools, failures are protocol errors: there
+ * is no way to return an error inside a prompt.
+ */
+export async function getPrompt(
+  name: string,
+  args: Record<string, string> | undefined,
+  context: Omit<ToolContext, 'profileContext'>
+): Promise<GetPromptResult> {
+  const prompt = findPrompt(name);
+  const parsed = argsSchemaFor(prompt).safeParse(args ?? {});
+  if (!parsed.success) {
+    const issues = describeIssues(parsed.error);
+    throw new ArgumentValidationError(
+      `Invalid arguments for ${prompt.name}: ${issues.map(issue => `${issue.path}: ${issue.message}`).join('; ')}`,
+      issues
+    );
+  }
+
+  const { profile, ...promptArgs } = parsed.data;
+  const profileContext = context.serverContext.forProfile(profile);
+  return {
+    description: prompt.description,
+    messages: await prompt.handler(promptArgs, { ...context, profileContext }),
+  };
+}
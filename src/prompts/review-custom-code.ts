@@ -0,0 +1,53 @@
+import { z } from 'zod';
+import { YamlUtils } from '../yaml-utils.js';
+import { operationOptions, resolveProjectId } from '../tools/shared.js';
+import { NotFoundError } from '../errors.js';
+import { ProjectArgumentSchema, userMessage } from './shared.js';
+import { definePrompt } from './types.js';
+
+export const reviewCustomCodePrompt = definePrompt({
+  name: 'review_custom_code',
+  title: 'Review custom code',
+  description: 'Code review of the custom actions, functions and widgets in a project',
+  argsSchema: z.object({
+    project: ProjectArgumentSchema,
+    name: z.string().optional().describe('Only review the custom action, function or widget with this name'),
+  }),
+  async handler(args, context) {
+    const projectId = await resolveProjectId(context, args);
+    const files = await context.profileContext.snapshotCache.getProjectFiles(projectId, {
+      partitions: ['custom_code'],
+      ...operationOptions(context),
+    });
+    const customCode = YamlUtils.extractCustomCode(files);
+
+    const entries = [
+      ...customCode.actions.map(entry => ({ kind: 'action', ...entry })),
+      ...customCode.functions.map(entry => ({ kind: 'function', ...entry })),
+      ...customCode.widgets.map(entry => ({ kind: 'widget', ...entry })),
+    ].filter(entry => !args.name || entry.name?.toLowerCase() === args.name.toLowerCase());
+
+    if (entries.length === 0) {
+      throw new NotFoundError(args.name ? `Custom code not found: ${args.name}` : `Project ${projectId} has no custom code`);
+    }
+
+    const sections = entries.map(entry => [
+      `### ${entry.kind} ${entry.name} (${entry.filename})`,
+      `Parameters: ${JSON.stringify(entry.parameters ?? entry.properties ?? [])}`,
+      '```dart',
+      entry.code || '// (no code)',
+      '```',
+    ].join('\n'));
+
+    return [
+      userMessage([
+        `Review the custom code of FlutterFlow project ${projectId}.`,
+        '',
+        ...sections,
+        '',
+        'For each entry, check for bugs, null-safety issues, unhandled errors, performance problems and '
+          + 'parameters that do not match the code. Suggest corrected code where needed. Do not commit any changes.',
+      ].join('\n')),
+    ];
+  },
+});
@@ -0,0 +1,29 @@
+import { z } from 'zod';
+import { PromptMessage } from '@modelcontextprotocol/sdk/types.js';
+
+export const ProjectArgumentSchema = z.string().describe('Project ID or name');
+
+export function jsonBlock(value: unknown): string {
+  return '```json\n' + JSON.stringify(value, null, 2) + '\n```';
+}
+
+/**
+ * Renders a widget list as an indented outline, e.g. "- Column" followed by
+ * its children, with a few scalar properties inline.
+ */
+export function outlineWidgets(widgets: any[], depth = 0): string {
+  return (widgets || []).flatMap(widget => {
+    const properties = Object.entries(widget?.properties ?? {})
+      .filter(([, value]) => ['string', 'number', 'boolean'].includes(typeof value))
+      .slice(0, 3)
+      .map(([key, value]) => `${key}: ${JSON.stringify(value)}`);
+    const line = `${'  '.repeat(depth)}- ${widget?.type ?? 'Unknown'}`
+      + (widget?.name ? ` "${widget.name}"` : '')
+      + (properties.length > 0 ? ` (${properties.join(', ')})` : '');
+    return [line, ...(widget?.children?.length ? [outlineWidgets(widget.children, depth + 1)] : [])];
+  }).join('\n');
+}
+
+export function userMessage(text: string): PromptMessage {
+  return { role: 'user', content: { type: 'text', text } };
+}
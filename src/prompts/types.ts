@@ -0,0 +1,23 @@
+import { z } from 'zod';
+import { PromptMessage } from '@modelcontextprotocol/sdk/types.js';
+import { ToolContext } from '../tools/types.js';
+
+/**
+ * A curated workflow offered through the client's prompt picker. Prompt
+ * arguments always arrive as strings, so argsSchema should only use
+ * (optional) string fields.
+ */
+export interface PromptDefinition<Args extends z.AnyZodObject = z.AnyZodObject> {
+  name: string;
+  title: string;
+  description: string;
+  argsSchema: Args;
+  handler: (args: z.infer<Args>, context: ToolContext) => Promise<PromptMessage[]>;
+}
+
+/**
+ * Identity helper that ties the handler's argument type to the declared schema.
+ */
+export function definePrompt<Args extends z.AnyZodObject>(prompt: PromptDefinition<Args>): PromptDefinition<Args> {
+  return prompt;
+}
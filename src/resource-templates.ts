@@ -0,0 +1,242 @@
+import { UriTemplate, Variables } from '@modelcontextprotocol/sdk/shared/uriTemplate.js';
+import { ReadResourceResult, ResourceTemplate } from '@modelcontextprotocol/sdk/types.js';
+import { InvalidArgumentError, NotFoundError } from './errors.js';
+import { ProfileContext } from './server-context.js';
+import { ProjectPartition, ProjectYamlFiles, YamlUtils } from './yaml-utils.js';
+
+const YAML_MIME_TYPE = 'application/yaml';
+const CUSTOM_CODE_KINDS = ['actions', 'functions', 'widgets'] as const;
+// MCP caps a completion response at 100 values
+const MAX_COMPLETIONS = 100;
+
+type CustomCodeKind = typeof CUSTOM_CODE_KINDS[number];
+
+/**
+ * Completes one template variable. `variables` holds the values the client
+ * already filled in for the other variables (e.g. the project id).
+ */
+type Completer = (context: ProfileContext, variables: Record<string, string>) => Promise<string[]>;
+
+interface ResourceTemplateDefinition {
+  template: ResourceTemplate;
+  read: (context: ProfileContext, variables: Record<string, string>) => Promise<string>;
+  complete: Record<string, Completer>;
+}
+
+function singleValue(value: string | string[]): string {
+  return decodeURIComponent(Array.isArray(value) ? value[0] : value);
+}
+
+function requireProject(variables: Record<string, string>): string {
+  if (!variables.id) {
+    throw new InvalidArgumentError('The project id must be filled in first');
+  }
+  return variables.id;
+}
+
+function parseKind(kind: string): CustomCodeKind {
+  if (!(CUSTOM_CODE_KINDS as readonly string[]).includes(kind)) {
+    throw new InvalidArgumentError(`Unknown custom code kind "${kind}". Expected one of: ${CUSTOM_CODE_KINDS.join(', ')}`);
+  }
+  return kind as CustomCodeKind;
+}
+
+async function loadPartition(context: ProfileContext, projectId: string, partition: ProjectPartition): Promise<ProjectYamlFiles> {
+  return context.snapshotCache.getProjectFiles(projectId, { partitions: [partition] });
+}
+
+const completeProjectId: Completer = async context => {
+  const projects = await context.flutterflowAPI.listProjects();
+  return projects.map(project => project.projectId);
+};
+
+const resourceTemplates: ResourceTemplateDefinition[] = [
+  {
+    template: {
+      uriTemplate: 'flutterflow://projects/{id}/pages/{pageName}',
+      name: 'page',
+      title: 'Page',
+      description: 'YAML of a single page',
+      mimeType: YAML_MIME_TYPE,
+    },
+    async read(context, { id, pageName }) {
+      const pages = YamlUtils.extractPages(await loadPartition(context, id, 'pages'));
+      return YamlUtils.dumpYaml({ pageDefinition: YamlUtils.findByName(pages, pageName, 'Page').definition });
+    },
+    complete: {
+      id: completeProjectId,
+      async pageName(context, variables) {
+        const files = await loadPartition(context, requireProject(variables), 'pages');
+        return YamlUtils.extractPages(files).map(page => page.name);
+      },
+    },
+  },
+  {
+    template: {
+      uriTemplate: 'flutterflow://projects/{id}/components/{name}',
+      name: 'component',
+      title: 'Component',
+      description: 'YAML of a single component',
+      mimeType: YAML_MIME_TYPE,
+    },
+    async read(context, { id, name }) {
+      const components = YamlUtils.extractComponents(await loadPartition(context, id, 'components'));
+      return YamlUtils.dumpYaml({
+        componentDefinition: YamlUtils.findByName(components, name, 'Component').definition,
+      });
+    },
+    complete: {
+      id: completeProjectId,
+      async name(context, variables) {
+        const files = await loadPartition(context, requireProject(variables), 'components');
+        return YamlUtils.extractComponents(files).map(component => component.name);
+      },
+    },
+  },
+  {
+    template: {
+      uriTemplate: 'flutterflow://projects/{id}/collections/{name}',
+      name: 'collection',
+      title: 'Database collection',
+      description: 'YAML of a single database collection',
+      mimeType: YAML_MIME_TYPE,
+    },
+    async read(context, { id, name }) {
+      const collections = YamlUtils.extractDatabaseCollections(await loadPartition(context, id, 'collections'));
+      return YamlUtils.dumpYaml({
+        collectionDefinition: YamlUtils.findByName(collections, name, 'Collection').definition,
+      });
+    },
+    complete: {
+      id: completeProjectId,
+      async name(context, variables) {
+        const files = await loadPartition(context, requireProject(variables), 'collections');
+        return YamlUtils.extractDatabaseCollections(files).map(collection => collection.name);
+      },
+    },
+  },
+  {
+    template: {
+      uriTemplate: 'flutterflow://projects/{id}/custom_code/{kind}/{name}',
+      name: 'custom_code',
+      title: 'Custom code',
+      description: 'YAML of a single custom action, function or widget (kind is actions, functions or widgets)',
+      mimeType: YAML_MIME_TYPE,
+    },
+    async read(context, { id, kind, name }) {
+      const customCode = YamlUtils.extractCustomCode(await loadPartition(context, id, 'custom_code'));
+      const entry = YamlUtils.findByName(customCode[parseKind(kind)], name, 'Custom code');
+      return YamlUtils.dumpYaml(entry.definition);
+    },
+    complete: {
+      id: completeProjectId,
+      kind: async () => [...CUSTOM_CODE_KINDS],
+      async name(context, variables) {
+        const customCode = YamlUtils.extractCustomCode(await loadPartition(context, requireProject(variables), 'custom_code'));
+        const kinds = variables.kind ? [parseKind(variables.kind)] : CUSTOM_CODE_KINDS;
+        return kinds.flatMap(kind => customCode[kind].map(entry => entry.name));
+      },
+    },
+  },
+  {
+    template: {
+      uriTemplate: 'flutterflow://projects/{id}/files/{+path}',
+      name: 'file',
+      title: 'Project file',
+      description: 'Any project file by its path, e.g. pages/home_page.yaml',
+      mimeType: YAML_MIME_TYPE,
+    },
+    async read(context, { id, path }) {
+      // Only download the partition holding the file when there is one
+      const partitions = (['pages', 'components', 'collections', 'custom_code', 'app_state'] as ProjectPartition[])
+        .filter(partition => YamlUtils.isInPartition(path, [partition]));
+      const files = await context.snapshotCache.getProjectFiles(
+        id,
+        partitions.length > 0 ? { partitions } : {}
+      );
+      if (!(path in files)) {
+        throw new NotFoundError(`File not found in project ${id}: ${path}`);
+      }
+      return YamlUtils.serializeFile(files[path]);
+    },
+    complete: {
+      id: completeProjectId,
+      async path(context, variables) {
+        return context.flutterflowAPI.getProjectFiles(requireProject(variables));
+      },
+    },
+  },
+];
+
+const compiledTemplates = resourceTemplates.map(definition => ({
+  definition,
+  uriTemplate: new UriTemplate(definition.template.uriTemplate),
+}));
+
+export function listResourceTemplates(): ResourceTemplate[] {
+  return resourceTemplates.map(definition => definition.template);
+}
+
+function matchTemplate(uri: string): { definition: ResourceTemplateDefinition; variables: Record<string, string> } | undefined {
+  for (const { definition, uriTemplate } of compiledTemplates) {
+    const match: Variables | null = uriTemplate.match(uri);
+    if (match) {
+      const variables = Object.fromEntries(Object.entries(match).map(([name, value]) => [name, singleValue(value)]));
+      return { definition, variables };
+    }
+  }
+  return undefined;
+}
+
+/**
+ * Reads a per-entity resource. Returns undefined when the URI doesn't match
+ * any template, so the caller can fall back to the project-level resources.
+ */
+export async function readTemplatedResource(
+  uri: string,
+  context: ProfileContext
+): Promise<ReadResourceResult | undefined> {
+  const matched = matchTemplate(uri);
+  if (!matched) {
+    return undefined;
+  }
+
+  const text = await matched.definition.read(context, matched.variables);
+  return {
+    contents: [
+      {
+        uri,
+        mimeType: matched.definition.template.mimeType,
+        text,
+      },
+    ],
+  };
+}
+
+/**
+ * Suggests values for a template variable, keeping those that contain what
+ * the user typed so far (case-insensitive). Unknown templates or variables
+ * have no suggestions.
+ */
+export async function completeTemplateArgument(
+  uriTemplate: string,
+  argument: { name: string; value: string },
+  variables: Record<string, string>,
+  context: ProfileContext
+): Promise<{ values: string[]; total: number; hasMore: boolean }> {
+  const definition = resourceTemplates.find(candidate => candidate.template.uriTemplate === uriTemplate);
+  const completer = definition?.complete[argument.name];
+  if (!completer) {
+    return { values: [], total: 0, hasMore: false };
+  }
+
+  const needle = argument.value.toLowerCase();
+  const candidates = [...new Set(await completer(context, variables))]
+    .filter(value => value && value.toLowerCase().includes(needle))
+    .sort((a, b) => Number(!a.toLowerCase().startsWith(needle)) - Number(!b.toLowerCase().startsWith(needle)));
+  return {
+    values: candidates.slice(0, MAX_COMPLETIONS),
+    total: candidates.length,
+    hasMore: candidates.length > MAX_COMPLETIONS,
+  };
+}
@@ -0,0 +1,220 @@
+import { createHash } from 'crypto';
+import { Server } from '@modelcontextprotocol/sdk/server/index.js';
+import { InvalidArgumentError } from './errors.js';
+import { createLogger } from './logger.js';
+import { ProfileContext } from './server-context.js';
+import { ProjectPartition, ProjectYamlFiles, YamlUtils } from './yaml-utils.js';
+
+const logger = createLogger('resources');
+
+const PARTITIONS: ProjectPartition[] = ['pages', 'components', 'collections', 'custom_code', 'app_state'];
+
+// What a subscribed URI depends on, and therefore what has to be compared
+type WatchTarget =
+  | { kind: 'project'; projectId: string }
+  | { kind: 'fileList'; projectId: string }
+  | { kind: 'partition'; projectId: string; partition: ProjectPartition }
+  | { kind: 'file'; projectId: string; path: string };
+
+const SEGMENT_PARTITIONS: Record<string, ProjectPartition> = {
+  pages: 'pages',
+  components: 'components',
+  database: 'collections',
+  collections: 'collections',
+  custom_code: 'custom_code',
+};
+
+/**
+ * Maps a flutterflow:// URI (static or templated) to the data it is built
+ * from. Summary, file list and diagnosis only depend on the file names.
+ */
+export function watchTargetFor(uri: string): WatchTarget {
+  let url: URL;
+  try {
+    url = new URL(uri);
+  } catch {
+    throw new InvalidArgumentError(`Invalid resource URI: ${uri}`);
+  }
+  // new URL() puts "projects" in the host for flutterflow://projects/...
+  const parts = [url.host, ...url.pathname.split('/')].filter(Boolean).map(decodeURIComponent);
+  if (url.protocol !== 'flutterflow:' || parts[0] !== 'projects') {
+    throw new InvalidArgumentError(`Cannot subscribe to ${uri}: only flutterflow://projects/... resources are supported`);
+  }
+
+  const [, projectId, section, ...rest] = parts;
+  if (!projectId) {
+    throw new InvalidArgumentError(`Cannot subscribe to ${uri}: the project id is missing`);
+  }
+
+  if (!section) {
+    return { kind: 'project', projectId };
+  }
+  if (section === 'files' && rest.length > 0) {
+    return { kind: 'file', projectId, path: rest.join('/') };
+  }
+  if (['summary', 'files', 'diagnosis'].includes(section)) {
+    return { kind: 'fileList', projectId };
+  }
+  if (SEGMENT_PARTITIONS[section]) {
+    return { kind: 'partition', projectId, partition: SEGMENT_PARTITIONS[section] };
+  }
+  throw new InvalidArgumentError(`Cannot subscribe to ${uri}: unknown resource type "${section}"`);
+}
+
+function hash(value: unknown): string {
+  return createHash('sha256').update(JSON.stringify(value ?? null)).digest('hex');
+}
+
+function hashFiles(files: ProjectYamlFiles): Record<string, string> {
+  return Object.fromEntries(Object.keys(files).sort().map(filename => [filename, hash(files[filename])]));
+}
+
+/**
+ * Loads what one polling round needs, fetching each project, partition or
+ * file list at most once however many URIs depend on it.
+ */
+class PollRound {
+  private cache = new Map<string, Promise<unknown>>();
+
+  constructor(private context: ProfileContext) {}
+
+  projects() {
+    return this.once('projects', () => this.context.flutterflowAPI.listProjects());
+  }
+
+  fileList(projectId: string) {
+    return this.once(`files:${projectId}`, () => this.context.flutterflowAPI.getProjectFiles(projectId));
+  }
+
+  partition(projectId: string, partition: ProjectPartition) {
+    return this.once(`partition:${projectId}:${partition}`, async () =>
+      hashFiles(await this.context.snapshotCache.getProjectFiles(projectId, { partitions: [partition], refresh: true }))
+    );
+  }
+
+  fullProject(projectId: string) {
+    return this.once(`full:${projectId}`, async () =>
+      hashFiles(await this.context.snapshotCache.getProjectFiles(projectId, { refresh: true }))
+    );
+  }
+
+  private once<T>(key: string, load: () => Promise<T>): Promise<T> {
+    if (!this.cache.has(key)) {
+      this.cache.set(key, load());
+    }
+    return this.cache.get(key) as Promise<T>;
+  }
+}
+
+async function fingerprint(target: WatchTarget, round: PollRound): Promise<string> {
+  switch (target.kind) {
+    case 'project': {
+      const projects = await round.projects();
+      return hash(projects.find(project => project.projectId === target.projectId));
+    }
+    case 'fileList':
+      return hash([...await round.fileList(target.projectId)].sort());
+    case 'partition':
+      return hash(await round.partition(target.projectId, target.partition));
+    case 'file': {
+      const partition = PARTITIONS.find(candidate => YamlUtils.isInPartition(target.path, [candidate]));
+      const hashes = partition
+        ? await round.partition(target.projectId, partition)
+        : await round.fullProject(target.projectId);
+      return hashes[target.path] ?? 'missing';
+    }
+  }
+}
+
+export interface ResourceWatcherOptions {
+  // Polling interval; defaults to FLUTTERFLOW_POLL_INTERVAL seconds, or 60
+  intervalMs?: number;
+}
+
+/**
+ * Backs resources/subscribe for one session. While anything is subscribed
+ * the projects are polled in the background; a changed fingerprint sends
+ * notifications/resources/updated for that URI, and projects appearing or
+ * disappearing send notifications/resources/list_changed.
+ */
+export class ResourceWatcher {
+  private subscriptions = new Map<string, { target: WatchTarget; fingerprint?: string }>();
+  private projectIds?: string;
+  private timer?: NodeJS.Timeout;
+  private polling?: Promise<void>;
+  readonly intervalMs: number;
+
+  constructor(
+    private server: Server,
+    private getContext: () => ProfileContext,
+    options: ResourceWatcherOptions = {}
+  ) {
+    const envSeconds = parseFloat(process.env.FLUTTERFLOW_POLL_INTERVAL || '');
+    this.intervalMs = options.intervalMs ?? (envSeconds > 0 ? envSeconds * 1000 : 60 * 1000);
+  }
+
+  subscribe(uri: string): void {
+    const target = watchTargetFor(uri);
+    if (!this.subscriptions.has(uri)) {
+      this.subscriptions.set(uri, { target });
+    }
+    this.timer ??= setInterval(() => void this.poll(), this.intervalMs).unref();
+    // Record the starting point so the first real change is noticed
+    void this.poll();
+  }
+
+  unsubscribe(uri: string): void {
+    this.subscriptions.delete(uri);
+    if (this.subscriptions.size === 0) {
+      this.stop();
+    }
+  }
+
+  stop(): void {
+    clearInterval(this.timer);
+    this.timer = undefined;
+  }
+
+  /**
+   * Runs one polling round. Overlapping calls share the round in progress.
+   */
+  poll(): Promise<void> {
+    this.polling ??= this.pollOnce().finally(() => {
+      this.polling = undefined;
+    });
+    return this.polling;
+  }
+
+  private async pollOnce(): Promise<void> {
+    // The session is gone; nobody is left to notify
+    if (!this.server.transport) {
+      this.stop();
+      return;
+    }
+
+    const round = new PollRound(this.getContext());
+    try {
+      const projectIds = (await round.projects()).map(project => project.projectId).sort().join('\n');
+      if (this.projectIds !== undefined && this.projectIds !== projectIds) {
+        await this.server.sendResourceListChanged();
+      }
+      this.projectIds = projectIds;
+    } catch (error) {
+      logger.warning('Polling the project list failed', { error: error instanceof Error ? error.message : String(error) });
+    }
+
+    for (const [uri, subscription] of this.subscriptions) {
+      try {
+        const current = await fingerprint(subscription.target, round);
+        const changed = subscription.fingerprint !== undefined && subscription.fingerprint !== current;
+        subscription.fingerprint = current;
+        if (changed && this.subscriptions.has(uri)) {
+          logger.debug(`Resource changed: ${uri}`);
+          await this.server.sendResourceUpdated({ uri });
+        }
+      } catch (error) {
+        logger.warning(`Polling ${uri} failed`, { error: error instanceof Error ? error.message : String(error) });
+      }
+    }
+  }
+}
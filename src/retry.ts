@@ -0,0 +1,141 @@
+import axios from 'axios';
+import { CancelledError } from './errors.js';
+import { throwIfAborted } from './progress.js';
+
+export interface RetryPolicy {
+  maxRetries: number;
+  baseDelayMs: number;
+  maxDelayMs: number;
+  retryableStatuses: number[];
+  retryNonIdempotent: boolean;
+}
+
+export const DEFAULT_RETRY_POLICY: RetryPolicy = {
+  maxRetries: 3,
+  baseDelayMs: 500,
+  maxDelayMs: 30000,
+  retryableStatuses: [408, 429, 500, 502, 503, 504],
+  retryNonIdempotent: false,
+};
+
+// ECONNABORTED is what axios reports when its own request timeout fires
+const RETRYABLE_NETWORK_CODES = ['ECONNRESET', 'ECONNABORTED', 'ETIMEDOUT', 'ECONNREFUSED', 'EAI_AGAIN', 'EPIPE'];
+
+export function resolveRetryPolicy(overrides: Partial<RetryPolicy> = {}): RetryPolicy {
+  const fromEnv: Partial<RetryPolicy> = {};
+
+  if (process.env.FLUTTERFLOW_MAX_RETRIES !== undefined) {
+    const maxRetries = parseInt(process.env.FLUTTERFLOW_MAX_RETRIES, 10);
+    if (!Number.isNaN(maxRetries) && maxRetries >= 0) {
+      fromEnv.maxRetries = maxRetries;
+    }
+  }
+  if (process.env.FLUTTERFLOW_RETRY_UPDATES !== undefined) {
+    fromEnv.retryNonIdempotent = process.env.FLUTTERFLOW_RETRY_UPDATES === 'true';
+  }
+
+  return { ...DEFAULT_RETRY_POLICY, ...fromEnv, ...overrides };
+}
+
+/**
+ * Parses a Retry-After header, which may be either a number of seconds or an HTTP date.
+ * Returns the delay in milliseconds, or null if the header is missing or unparseable.
+ */
+export function parseRetryAfter(header: unknown, now: number = Date.now()): number | null {
+  if (typeof header !== 'string' && typeof header !== 'number') {
+    return null;
+  }
+
+  const value = String(header).trim();
+  if (/^\d+(\.\d+)?$/.test(value)) {
+    return Math.round(parseFloat(value) * 1000);
+  }
+
+  const date = Date.parse(value);
+  if (!Number.isNaN(date)) {
+    return Math.max(0, date - now);
+  }
+
+  return null;
+}
+
+/**
+ * Exponential backoff with full jitter: a random delay between 0 and
+ * baseDelayMs * 2^attempt, capped at maxDelayMs.
+ */
+export function computeBackoffDelay(attempt: number, policy: RetryPolicy, random: () => number = Math.random): number {
+  const ceiling = Math.min(policy.maxDelayMs, policy.baseDelayMs * Math.pow(2, attempt));
+  return Math.floor(random() * ceiling);
+}
+
+export function isRetryableError(error: unknown, policy: RetryPolicy): boolean {
+  if (!axios.isAxiosError(error)) {
+    return false;
+  }
+  if (error.response) {
+    return policy.retryableStatuses.includes(error.response.status);
+  }
+  return !!error.code && RETRYABLE_NETWORK_CODES.includes(error.code);
+}
+
+function getRetryDelay(error: unknown, attempt: number, policy: RetryPolicy): number {
+  if (axios.isAxiosError(error)) {
+    const retryAfter = parseRetryAfter(error.response?.headers?.['retry-after']);
+    if (retryAfter !== null) {
+      return Math.min(retryAfter, policy.maxDelayMs);
+    }
+  }
+  return computeBackoffDelay(attempt, policy);
+}
+
+/**
+ * Waits ms milliseconds, or rejects with CancelledError as soon as the
+ * signal fires.
+ */
+function sleep(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(new CancelledError('The request was cancelled'));
+      return;
+    }
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(new CancelledError('The request was cancelled'));
+    };
+    const timer = setTimeout(() => {
+      signal?.removeEventListener('abort', onAbort);
+      resolve();
+    }, ms);
+    signal?.addEventListener('abort', onAbort, { once: true });
+  });
+}
+
+/**
+ * Runs an API operation, retrying on rate limits, transient 5xx responses and
+ * network failures. Non-idempotent operations are only retried when the
+ * policy explicitly allows it. Once signal fires, no further attempt starts
+ * and a pending backoff ends right away.
+ */
+export async function withRetry<T>(
+  operation: () => Promise<T>,
+  policy: RetryPolicy,
+  idempotent: boolean = true,
+  onRetry?: (error: unknown, attempt: number, delayMs: number) => void,
+  signal?: AbortSignal
+): Promise<T> {
+  const maxRetries = idempotent || policy.retryNonIdempotent ? policy.maxRetries : 0;
+
+  for (let attempt = 0; ; attempt++) {
+    throwIfAborted(signal);
+    try {
+      return await operation();
+    } catch (error) {
+      if (attempt >= maxRetries || !isRetryableError(error, policy)) {
+        throw error;
+      }
+      const delayMs = getRetryDelay(error, attempt, policy);
+      onRetry?.(error, attempt + 1, delayMs);
+      await sleep(delayMs, signal);
+    }
+  }
+}
@@ -0,0 +1,72 @@
+import { createHash } from 'crypto';
+import { FlutterFlowAPI } from './flutterflow-api.js';
+import { SnapshotCache } from './snapshot-cache.js';
+import { SnapshotStore } from './snapshot-store.js';
+import { AuditLog } from './audit-log.js';
+import { CredentialProfile, CredentialsRegistry } from './credentials.js';
+import { WritePolicy } from './write-policy.js';
+import { ConfirmationStore } from './confirmations.js';
+
+/**
+ * Everything a tool call needs to talk to one FlutterFlow account.
+ */
+export interface ProfileContext {
+  profile: string;
+  flutterflowAPI: FlutterFlowAPI;
+  snapshotCache: SnapshotCache;
+  snapshotStore: SnapshotStore;
+  auditLog: AuditLog;
+}
+
+export interface ServerContext {
+  credentials: CredentialsRegistry;
+  writePolicy: WritePolicy;
+  confirmations: ConfirmationStore;
+  /**
+   * Returns the API client, cache and snapshot store for a profile, or for
+   * the default profile when name is omitted.
+   */
+  forProfile(name?: string): ProfileContext;
+}
+
+/**
+ * The profile from FLUTTERFLOW_API_TOKEN keeps the original snapshot and
+ * audit log layout; every other token gets its own namespace so accounts
+ * never read each other's snapshots or audit log. The cache, which lives in
+ * the shared temp directory, is always namespaced by token.
+ */
+function createProfileContext(profile: CredentialProfile): ProfileContext {
+  const tokenHash = createHash('sha256').update(profile.apiToken).digest('hex').slice(0, 16);
+  const namespace = profile.fromEnvironment ? undefined : tokenHash;
+  const flutterflowAPI = new FlutterFlowAPI({ apiToken: profile.apiToken, baseURL: profile.baseURL });
+
+  return {
+    profile: profile.name,
+    flutterflowAPI,
+    snapshotCache: new SnapshotCache(flutterflowAPI, { namespace: tokenHash }),
+    snapshotStore: new SnapshotStore({ namespace }),
+    auditLog: new AuditLog({ namespace }),
+  };
+}
+
+export function createServerContext(
+  credentials: CredentialsRegistry,
+  writePolicy: WritePolicy = new WritePolicy()
+): ServerContext {
+  const contexts = new Map<string, ProfileContext>();
+
+  return {
+    credentials,
+    writePolicy,
+    confirmations: new ConfirmationStore(),
+    forProfile(name?: string): ProfileContext {
+      const profile = credentials.getProfile(name);
+      let context = contexts.get(profile.name);
+      if (!context) {
+        context = createProfileContext(profile);
+        contexts.set(profile.name, context);
+      }
+      return context;
+    },
+  };
+}
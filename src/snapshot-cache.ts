@@ -0,0 +1,182 @@
+import { promises as fs } from 'fs';
+import os from 'os';
+import path from 'path';
+import { FlutterFlowAPI } from './flutterflow-api.js';
+import { ProjectPartition, ProjectYamlFiles, YamlUtils } from './yaml-utils.js';
+import { createLogger } from './logger.js';
+import { OperationOptions, throwIfAborted } from './progress.js';
+
+const logger = createLogger('snapshot-cache');
+
+// Bump when the on-disk layout changes so stale snapshots are ignored
+const CACHE_FORMAT_VERSION = 2;
+
+const FULL_SNAPSHOT_KEY = 'full';
+
+export interface SnapshotCacheOptions {
+  directory?: string;
+  // Keeps accounts apart when several tokens share one cache directory
+  namespace?: string;
+  ttlMs?: number;
+  downloadBatchSize?: number;
+}
+
+export interface LoadOptions extends OperationOptions {
+  refresh?: boolean;
+  /**
+   * Only load files belonging to these partitions. The file list is fetched
+   * first and just the matching files are downloaded.
+   */
+  partitions?: ProjectPartition[];
+}
+
+interface CachedSnapshot {
+  version: number;
+  projectId: string;
+  key: string;
+  fetchedAt: number;
+  files: ProjectYamlFiles;
+}
+
+/**
+ * Caches decoded project YAML on disk so that consecutive read tools on the
+ * same project don't each download and unzip the whole project.
+ */
+export class SnapshotCache {
+  private rootDirectory: string;
+  private directory: string;
+  private ttlMs: number;
+  private downloadBatchSize: number;
+
+  constructor(private api: FlutterFlowAPI, options: SnapshotCacheOptions = {}) {
+    this.rootDirectory = options.directory
+      || process.env.FLUTTERFLOW_CACHE_DIR
+      || path.join(os.tmpdir(), 'flutterflow-mcp-cache');
+    this.directory = options.namespace ? path.join(this.rootDirectory, options.namespace) : this.rootDirectory;
+
+    const envTtlSeconds = process.env.FLUTTERFLOW_CACHE_TTL !== undefined
+      ? parseInt(process.env.FLUTTERFLOW_CACHE_TTL, 10)
+      : NaN;
+    this.ttlMs = options.ttlMs ?? (Number.isNaN(envTtlSeconds) ? 5 * 60 * 1000 : envTtlSeconds * 1000);
+
+    const envBatchSize = parseInt(process.env.FLUTTERFLOW_DOWNLOAD_BATCH_SIZE || '', 10);
+    this.downloadBatchSize = options.downloadBatchSize ?? (envBatchSize > 0 ? envBatchSize : 50);
+  }
+
+  async getProjectFiles(projectId: string, options: LoadOptions = {}): Promise<ProjectYamlFiles> {
+    const partitions = options.partitions;
+    const key = partitions ? [...partitions].sort().join('+') : FULL_SNAPSHOT_KEY;
+
+    if (!options.refresh) {
+      const cached = await this.read(projectId, key);
+      if (cached) {
+        return cached;
+      }
+      // A fresh full snapshot already contains every partition
+      if (partitions) {
+        const full = await this.read(projectId, FULL_SNAPSHOT_KEY);
+        if (full) {
+          return YamlUtils.filterPartitions(full, partitions);
+        }
+      }
+    }
+
+    const operation: OperationOptions = { signal: options.signal, onProgress: options.onProgress };
+    const files = partitions
+      ? await this.downloadPartitions(projectId, partitions, operation)
+      : await YamlUtils.decodeProjectYamlAsync(await this.api.downloadProjectYAML(projectId, undefined, operation), operation);
+    await this.write(projectId, key, files);
+    return files;
+  }
+
+  async invalidate(projectId: string): Promise<void> {
+    await fs.rm(this.projectDirectory(projectId), { recursive: true, force: true });
+  }
+
+  private async downloadPartitions(
+    projectId: string,
+    partitions: ProjectPartition[],
+    operation: OperationOptions
+  ): Promise<ProjectYamlFiles> {
+    const allFileNames = await this.api.getProjectFiles(projectId, operation);
+    let fileNames = YamlUtils.selectPartitionFiles(allFileNames, partitions);
+    // Collections may also be defined in a single file under a top-level
+    // `collections:` key, which the file name doesn't reveal. Without a
+    // collections/ folder every file is downloaded and filtered by content.
+    const scanContent = partitions.includes('collections')
+      && YamlUtils.selectPartitionFiles(allFileNames, ['collections']).length === 0;
+    if (scanContent) {
+      fileNames = allFileNames;
+    }
+    const files: ProjectYamlFiles = {};
+
+    // Download sequentially in batches to keep request URLs and zip sizes bounded
+    for (let i = 0; i < fileNames.length; i += this.downloadBatchSize) {
+      throwIfAborted(operation.signal);
+      const batch = fileNames.slice(i, i + this.downloadBatchSize);
+      const yamlContent = await this.api.downloadProjectYAML(projectId, batch, operation);
+      Object.assign(files, await YamlUtils.decodeProjectYamlAsync(yamlContent, operation));
+    }
+
+    return scanContent ? YamlUtils.filterPartitions(files, partitions) : files;
+  }
+
+  private projectDirectory(projectId: string): string {
+    return path.join(this.directory, `v${CACHE_FORMAT_VERSION}`, encodeURIComponent(projectId));
+  }
+
+  private snapshotPath(projectId: string, key: string): string {
+    return path.join(this.projectDirectory(projectId), `${key}.json`);
+  }
+
+  private async read(projectId: string, key: string): Promise<ProjectYamlFiles | null> {
+    if (this.ttlMs <= 0) {
+      return null;
+    }
+
+    try {
+      const raw = await fs.readFile(this.snapshotPath(projectId, key), 'utf8');
+      const snapshot = JSON.parse(raw) as CachedSnapshot;
+      if (snapshot.version !== CACHE_FORMAT_VERSION || snapshot.projectId !== projectId || snapshot.key !== key) {
+        return null;
+      }
+      if (Date.now() - snapshot.fetchedAt > this.ttlMs) {
+        return null;
+      }
+      return snapshot.files;
+    } catch {
+      // Missing or corrupt snapshots are treated as a cache miss
+      return null;
+    }
+  }
+
+  private async write(projectId: string, key: string, files: ProjectYamlFiles): Promise<void> {
+    if (this.ttlMs <= 0) {
+      return;
+    }
+
+    const snapshot: CachedSnapshot = {
+      version: CACHE_FORMAT_VERSION,
+      projectId,
+      key,
+      fetchedAt: Date.now(),
+      files,
+    };
+    const target = this.snapshotPath(projectId, key);
+
+    try {
+      // Decoded projects are private to the user running the server, and the
+      // default location is the shared temp directory
+      await fs.mkdir(path.dirname(target), { recursive: true, mode: 0o700 });
+      // mkdir leaves an existing root alone, e.g. one created by an older version
+      await fs.chmod(this.rootDirectory, 0o700);
+      // Write to a temp file first so a crash never leaves a half-written snapshot
+      const tempFile = `${target}.${process.pid}.tmp`;
+      await fs.writeFile(tempFile, JSON.stringify(snapshot), { encoding: 'utf8', mode: 0o600 });
+      await fs.rename(tempFile, target);
+    } catch (error) {
+      // Caching is best-effort; a read-only disk should not break the tool call
+      logger.warning(`Failed to write snapshot for ${projectId}`, { error: String(error) });
+    }
+  }
+}
@@ -0,0 +1,151 @@
+import { randomBytes } from 'crypto';
+import { promises as fs } from 'fs';
+import os from 'os';
+import path from 'path';
+import { NotFoundError } from './errors.js';
+import { ProjectYamlFiles } from './yaml-utils.js';
+
+export interface SnapshotMetadata {
+  id: string;
+  projectId: string;
+  createdAt: string;
+  tool: string;
+  commitMessage?: string;
+  fileCount: number;
+}
+
+export interface ProjectSnapshot extends SnapshotMetadata {
+  files: ProjectYamlFiles;
+}
+
+export interface SnapshotStoreOptions {
+  directory?: string;
+  // Keeps accounts apart when several tokens share one snapshot directory
+  namespace?: string;
+  maxSnapshotsPerProject?: number;
+}
+
+/**
+ * Keeps the pre-change state of a project every time the server writes to
+ * it, so a bad edit can be rolled back. Unlike the snapshot cache these are
+ * durable and live outside the temp directory.
+ */
+export class SnapshotStore {
+  private directory: string;
+  private maxSnapshotsPerProject: number;
+  private lastTimestamp = 0;
+
+  constructor(options: SnapshotStoreOptions = {}) {
+    this.directory = options.directory
+      || process.env.FLUTTERFLOW_SNAPSHOT_DIR
+      || path.join(os.homedir(), '.flutterflow-mcp', 'snapshots');
+    if (options.namespace) {
+      this.directory = path.join(this.directory, options.namespace);
+    }
+
+    const envLimit = parseInt(process.env.FLUTTERFLOW_SNAPSHOT_LIMIT || '', 10);
+    this.maxSnapshotsPerProject = options.maxSnapshotsPerProject ?? (envLimit > 0 ? envLimit : 20);
+  }
+
+  async save(
+    projectId: string,
+    files: ProjectYamlFiles,
+    details: { tool: string; commitMessage?: string }
+  ): Promise<SnapshotMetadata> {
+    // Ids start with a strictly increasing timestamp so they sort in creation order,
+    // even for several saves within the same millisecond
+    this.lastTimestamp = Math.max(Date.now(), this.lastTimestamp + 1);
+    const createdAt = new Date(this.lastTimestamp);
+    const id = `${this.lastTimestamp.toString(36).padStart(9, '0')}-${randomBytes(3).toString('hex')}`;
+    const snapshot: ProjectSnapshot = {
+      id,
+      projectId,
+      createdAt: createdAt.toISOString(),
+      tool: details.tool,
+      commitMessage: details.commitMessage,
+      fileCount: Object.keys(files).length,
+      files,
+    };
+
+    const projectDirectory = this.projectDirectory(projectId);
+    // Snapshots hold whole projects, so only the user running the server may read them
+    await fs.mkdir(projectDirectory, { recursive: true, mode: 0o700 });
+    await fs.writeFile(path.join(projectDirectory, `${id}.json`), JSON.stringify(snapshot), { encoding: 'utf8', mode: 0o600 });
+    await this.prune(projectId);
+
+    const { files: _files, ...metadata } = snapshot;
+    return metadata;
+  }
+
+  /**
+   * Lists snapshots for a project, newest first.
+   */
+  async list(projectId: string): Promise<SnapshotMetadata[]> {
+    const ids = await this.listIds(projectId);
+    const snapshots: SnapshotMetadata[] = [];
+
+    for (const id of ids.reverse()) {
+      try {
+        const { files: _files, ...metadata } = await this.get(projectId, id);
+        snapshots.push(metadata);
+      } catch {
+        // Skip unreadable snapshot files rather than failing the whole listing
+      }
+    }
+
+    return snapshots;
+  }
+
+  async get(projectId: string, snapshotId: string): Promise<ProjectSnapshot> {
+    if (!/^[a-z0-9-]+$/.test(snapshotId)) {
+      throw new NotFoundError(`Snapshot not found: ${snapshotId}`);
+    }
+
+    try {
+      const raw = await fs.readFile(path.join(this.projectDirectory(projectId), `${snapshotId}.json`), 'utf8');
+      return JSON.parse(raw) as ProjectSnapshot;
+    } catch (error: any) {
+      if (error?.code === 'ENOENT') {
+        throw new NotFoundError(`Snapshot not found: ${snapshotId}`);
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * Deletes a snapshot, e.g. one saved for a commit that then failed.
+   */
+  async remove(projectId: string, snapshotId: string): Promise<void> {
+    if (!/^[a-z0-9-]+$/.test(snapshotId)) {
+      return;
+    }
+    await fs.rm(path.join(this.projectDirectory(projectId), `${snapshotId}.json`), { force: true });
+  }
+
+  private projectDirectory(projectId: string): string {
+    return path.join(this.directory, encodeURIComponent(projectId));
+  }
+
+  private async listIds(projectId: string): Promise<string[]> {
+    try {
+      const entries = await fs.readdir(this.projectDirectory(projectId));
+      return entries
+        .filter(entry => entry.endsWith('.json'))
+        .map(entry => entry.slice(0, -'.json'.length))
+        .sort();
+    } catch (error: any) {
+      if (error?.code === 'ENOENT') {
+        return [];
+      }
+      throw error;
+    }
+  }
+
+  private async prune(projectId: string): Promise<void> {
+    const ids = await this.listIds(projectId);
+    const excess = ids.slice(0, Math.max(0, ids.length - this.maxSnapshotsPerProject));
+    for (const id of excess) {
+      await fs.rm(path.join(this.projectDirectory(projectId), `${id}.json`), { force: true });
+    }
+  }
+}
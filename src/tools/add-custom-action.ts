@@ -0,0 +1,44 @@
+import { z } from 'zod';
+import { ProjectReferenceSchema } from '../project-resolver.js';
+import { YamlUtils } from '../yaml-utils.js';
+import {
+  CommitMessageSchema,
+  CommitResultSchema,
+  DryRunSchema,
+  commitProjectFiles,
+  operationOptions,
+  resolveProjectId,
+} from './shared.js';
+import { defineTool } from './types.js';
+
+export const addCustomActionTool = defineTool({
+  name: 'add_custom_action',
+  description: 'Add a new custom action to a FlutterFlow project',
+  inputSchema: ProjectReferenceSchema.extend({
+    actionName: z.string().describe('Name of the custom action'),
+    actionDefinition: z.record(z.any()).describe('Action definition including code and parameters'),
+    commitMessage: CommitMessageSchema,
+    dryRun: DryRunSchema,
+  }),
+  outputSchema: CommitResultSchema,
+  annotations: {
+    title: 'Add custom action',
+    readOnlyHint: false,
+    destructiveHint: false,
+    idempotentHint: false,
+    openWorldHint: true,
+  },
+  async handler(args, context) {
+    const projectId = await resolveProjectId(context, args);
+    const files = await context.profileContext.snapshotCache.getProjectFiles(projectId, {
+      refresh: true,
+      ...operationOptions(context),
+    });
+    const updatedFiles = YamlUtils.addCustomAction(files, args.actionName, args.actionDefinition);
+    return commitProjectFiles(context, projectId, files, updatedFiles, {
+      tool: 'add_custom_action',
+      commitMessage: args.commitMessage,
+      dryRun: args.dryRun,
+    });
+  },
+});
@@ -0,0 +1,44 @@
+import { z } from 'zod';
+import { ProjectReferenceSchema } from '../project-resolver.js';
+import { YamlUtils } from '../yaml-utils.js';
+import {
+  CommitMessageSchema,
+  CommitResultSchema,
+  DryRunSchema,
+  commitProjectFiles,
+  operationOptions,
+  resolveProjectId,
+} from './shared.js';
+import { defineTool } from './types.js';
+
+export const addCustomFunctionTool = defineTool({
+  name: 'add_custom_function',
+  description: 'Add a new custom function to a FlutterFlow project',
+  inputSchema: ProjectReferenceSchema.extend({
+    functionName: z.string().describe('Name of the custom function'),
+    functionDefinition: z.record(z.any()).describe('Function definition including code and parameters'),
+    commitMessage: CommitMessageSchema,
+    dryRun: DryRunSchema,
+  }),
+  outputSchema: CommitResultSchema,
+  annotations: {
+    title: 'Add custom function',
+    readOnlyHint: false,
+    destructiveHint: false,
+    idempotentHint: false,
+    openWorldHint: true,
+  },
+  async handler(args, context) {
+    const projectId = await resolveProjectId(context, args);
+    const files = await context.profileContext.snapshotCache.getProjectFiles(projectId, {
+      refresh: true,
+      ...operationOptions(context),
+    });
+    const updatedFiles = YamlUtils.addCustomFunction(files, args.functionName, args.functionDefinition);
+    return commitProjectFiles(context, projectId, files, updatedFiles, {
+      tool: 'add_custom_function',
+      commitMessage: args.commitMessage,
+      dryRun: args.dryRun,
+    });
+  },
+});
@@ -0,0 +1,44 @@
+import { z } from 'zod';
+import { ProjectReferenceSchema } from '../project-resolver.js';
+import { YamlUtils } from '../yaml-utils.js';
+import {
+  CommitMessageSchema,
+  CommitResultSchema,
+  DryRunSchema,
+  commitProjectFiles,
+  operationOptions,
+  resolveProjectId,
+} from './shared.js';
+import { defineTool } from './types.js';
+
+export const addDatabaseCollectionTool = defineTool({
+  name: 'add_database_collection',
+  description: 'Add a new database collection to a FlutterFlow project',
+  inputSchema: ProjectReferenceSchema.extend({
+    collectionName: z.string().describe('Name of the database collection'),
+    collectionDefinition: z.record(z.any()).describe('Collection definition including fields and indexes'),
+    commitMessage: CommitMessageSchema,
+    dryRun: DryRunSchema,
+  }),
+  outputSchema: CommitResultSchema,
+  annotations: {
+    title: 'Add database collection',
+    readOnlyHint: false,
+    destructiveHint: false,
+    idempotentHint: false,
+    openWorldHint: true,
+  },
+  async handler(args, context) {
+    const projectId = await resolveProjectId(context, args);
+    const files = await context.profileContext.snapshotCache.getProjectFiles(projectId, {
+      refresh: true,
+      ...operationOptions(context),
+    });
+    const updatedFiles = YamlUtils.addDatabaseCollection(files, args.collectionName, args.collectionDefinition);
+    return commitProjectFiles(context, projectId, files, updatedFiles, {
+      tool: 'add_database_collection',
+      commitMessage: args.commitMessage,
+      dryRun: args.dryRun,
+    });
+  },
+});
@@ -0,0 +1,42 @@
+import { ProjectReferenceSchema } from '../project-resolver.js';
+import { YamlUtils } from '../yaml-utils.js';
+import {
+  CommitMessageSchema,
+  DryRunSchema,
+  WidgetEditResultSchema,
+  WidgetTargetSchema,
+  commitWidgetEdit,
+  operationOptions,
+  resolveProjectId,
+} from './shared.js';
+import { defineTool } from './types.js';
+
+export const deleteWidgetTool = defineTool({
+  name: 'delete_widget',
+  description: 'Delete a widget and its subtree from a page or component',
+  inputSchema: ProjectReferenceSchema.merge(WidgetTargetSchema).extend({
+    commitMessage: CommitMessageSchema,
+    dryRun: DryRunSchema,
+  }),
+  outputSchema: WidgetEditResultSchema,
+  annotations: {
+    title: 'Delete widget',
+    readOnlyHint: false,
+    destructiveHint: true,
+    idempotentHint: false,
+    openWorldHint: true,
+  },
+  async handler(args, context) {
+    const projectId = await resolveProjectId(context, args);
+    const files = await context.profileContext.snapshotCache.getProjectFiles(projectId, {
+      refresh: true,
+      ...operationOptions(context),
+    });
+    const edit = YamlUtils.deleteWidget(files, args);
+    return commitWidgetEdit(context, projectId, files, edit, {
+      tool: 'delete_widget',
+      commitMessage: args.commitMessage,
+      dryRun: args.dryRun,
+    });
+  },
+});
@@ -0,0 +1,65 @@
+import { z } from 'zod';
+import { ProjectReferenceSchema } from '../project-resolver.js';
+import { operationOptions, resolveProjectId } from './shared.js';
+import { defineTool } from './types.js';
+
+export const diagnoseProjectTool = defineTool({
+  name: 'diagnose_project',
+  description: 'Analyze project health and provide recommendations for large projects',
+  inputSchema: ProjectReferenceSchema,
+  outputSchema: z.object({
+    projectId: z.string(),
+    health: z.string(),
+    statistics: z.object({
+      totalFiles: z.number(),
+      componentFiles: z.number(),
+      pageFiles: z.number(),
+      databaseFiles: z.number(),
+      customCodeFiles: z.number(),
+    }),
+    recommendations: z.array(z.string()),
+    estimatedSize: z.string(),
+  }),
+  annotations: {
+    title: 'Diagnose project',
+    readOnlyHint: true,
+    openWorldHint: true,
+  },
+  async handler(args, context) {
+    const projectId = await resolveProjectId(context, args);
+    const files = await context.profileContext.flutterflowAPI.getProjectFiles(projectId, operationOptions(context));
+    const diagnosis = {
+      projectId,
+      health: 'analyzing...',
+      statistics: {
+        totalFiles: files.length,
+        componentFiles: files.filter(f => f.includes('components')).length,
+        pageFiles: files.filter(f => f.includes('pages')).length,
+        databaseFiles: files.filter(f => f.includes('collections')).length,
+        customCodeFiles: files.filter(f => f.includes('custom_code')).length,
+      },
+      recommendations: [] as string[],
+      estimatedSize: 'Estimating project size...',
+    };
+
+    // Add recommendations based on file count
+    if (files.length > 100) {
+      diagnosis.health = 'Large project - use summary endpoints';
+      diagnosis.recommendations.push('Use get_file_list_summary() instead of full content retrieval');
+      diagnosis.recommendations.push('Use get_project_summary() for overview');
+      diagnosis.recommendations.push('Consider processing in batches if updates needed');
+    } else if (files.length > 50) {
+      diagnosis.health = 'Medium project - some operations may be slow';
+      diagnosis.recommendations.push('Use summary endpoints for faster overview');
+      diagnosis.recommendations.push('Full YAML processing may work but could be slow');
+    } else {
+      diagnosis.health = 'Small project - all operations should work smoothly';
+      diagnosis.recommendations.push('All MCP tools should work without issues');
+    }
+
+    // Estimate size (rough approximation)
+    diagnosis.estimatedSize = `Approximately ${Math.round(files.length * 2)}KB based on ${files.length} files`;
+
+    return diagnosis;
+  },
+});
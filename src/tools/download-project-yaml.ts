@@ -0,0 +1,25 @@
+import { z } from 'zod';
+import { ProjectReferenceSchema } from '../project-resolver.js';
+import { operationOptions, resolveProjectId } from './shared.js';
+import { defineTool } from './types.js';
+
+export const downloadProjectYamlTool = defineTool({
+  name: 'download_project_yaml',
+  description: 'Download YAML configuration files for a FlutterFlow project',
+  inputSchema: ProjectReferenceSchema.extend({
+    fileNames: z.array(z.string()).optional()
+      .describe('Optional array of specific file names to download. If not provided, downloads all files.'),
+  }),
+  outputSchema: z.string().describe('Base64-encoded zip of the requested YAML files'),
+  structuredKey: 'yamlContent',
+  annotations: {
+    title: 'Download project YAML',
+    readOnlyHint: true,
+    openWorldHint: true,
+  },
+  async handler(args, context) {
+    const projectId = await resolveProjectId(context, args);
+    return context.profileContext.flutterflowAPI.downloadProjectYAML(projectId, args.fileNames, operationOptions(context));
+  },
+  formatText: yaml => yaml,
+});
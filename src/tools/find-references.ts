@@ -0,0 +1,42 @@
+import { z } from 'zod';
+import { NODE_KIND_LABELS } from '../graph-format.js';
+import { ProjectReferenceSchema } from '../project-resolver.js';
+import { YamlUtils } from '../yaml-utils.js';
+import { GRAPH_PARTITIONS, GraphEdgeSchema, GraphNodeKindSchema, GraphNodeSchema } from './get-dependency-graph.js';
+import { RefreshSchema, operationOptions, resolveProjectId } from './shared.js';
+import { defineTool } from './types.js';
+
+export const findReferencesTool = defineTool({
+  name: 'find_references',
+  description: 'Find what uses a page, component, custom action/function/widget, collection or app-state variable, and what it uses, e.g. before deleting or renaming it',
+  inputSchema: ProjectReferenceSchema.extend({
+    kind: GraphNodeKindSchema.describe('What to look up: page, component, action, function, widget (custom widget), collection or appState (variable)'),
+    name: z.string().describe('Its name, e.g. CustomButton or users'),
+    transitive: z.boolean().optional()
+      .describe('Also list indirect dependents, e.g. pages using a component that uses the collection'),
+    refresh: RefreshSchema,
+  }),
+  outputSchema: z.object({
+    node: GraphNodeSchema,
+    references: z.array(GraphEdgeSchema),
+    referencedBy: z.array(GraphEdgeSchema),
+  }),
+  annotations: {
+    title: 'Find references',
+    readOnlyHint: true,
+    openWorldHint: true,
+  },
+  async handler(args, context) {
+    const projectId = await resolveProjectId(context, args);
+    const files = await context.profileContext.snapshotCache.getProjectFiles(projectId, {
+      refresh: args.refresh === true,
+      partitions: GRAPH_PARTITIONS,
+      ...operationOptions(context),
+    });
+    const graph = YamlUtils.buildReferenceGraph(files);
+    // Names are matched like everywhere else: exactly first, then ignoring case
+    const candidates = graph.nodes.filter(candidate => candidate.kind === args.kind);
+    const node = YamlUtils.findByName(candidates, args.name, NODE_KIND_LABELS[args.kind]);
+    return YamlUtils.findReferences(graph, node.id, { transitive: args.transitive === true });
+  },
+});
@@ -0,0 +1,33 @@
+import { z } from 'zod';
+import { ProjectReferenceSchema } from '../project-resolver.js';
+import { YamlUtils } from '../yaml-utils.js';
+import { RefreshSchema, operationOptions, resolveProjectId } from './shared.js';
+import { defineTool } from './types.js';
+
+export const getAppStateTool = defineTool({
+  name: 'get_app_state',
+  description: 'Extract app state variables and data types from a FlutterFlow project',
+  inputSchema: ProjectReferenceSchema.extend({
+    refresh: RefreshSchema,
+  }),
+  outputSchema: z.object({
+    variables: z.array(z.any()),
+    dataTypes: z.array(z.any()),
+    constants: z.array(z.any()),
+  }).nullable(),
+  structuredKey: 'appState',
+  annotations: {
+    title: 'Get app state',
+    readOnlyHint: true,
+    openWorldHint: true,
+  },
+  async handler(args, context) {
+    const projectId = await resolveProjectId(context, args);
+    const files = await context.profileContext.snapshotCache.getProjectFiles(projectId, {
+      refresh: args.refresh,
+      partitions: ['app_state'],
+      ...operationOptions(context),
+    });
+    return YamlUtils.extractAppState(files);
+  },
+});
@@ -0,0 +1,55 @@
+import { z } from 'zod';
+import { ProjectReferenceSchema } from '../project-resolver.js';
+import { resolveProjectId } from './shared.js';
+import { defineTool } from './types.js';
+
+export const AuditEntrySchema = z.object({
+  timestamp: z.string(),
+  tool: z.string(),
+  projectId: z.string(),
+  profile: z.string(),
+  client: z.object({
+    name: z.string().optional(),
+    version: z.string().optional(),
+    sessionId: z.string().optional(),
+  }).optional(),
+  commitMessage: z.string().optional(),
+  outcome: z.enum(['committed', 'failed', 'unknown']),
+  files: z.array(z.object({
+    filename: z.string(),
+    status: z.enum(['added', 'modified', 'removed']),
+  })),
+  hashBefore: z.string(),
+  hashAfter: z.string(),
+  snapshotId: z.string().optional(),
+  result: z.any().optional(),
+  error: z.object({ code: z.string().optional(), message: z.string() }).optional(),
+});
+
+export const getAuditLogTool = defineTool({
+  name: 'get_audit_log',
+  description: 'List the changes this server has committed (or tried to commit) to FlutterFlow projects, newest first',
+  inputSchema: ProjectReferenceSchema.extend({
+    since: z.string().optional().describe('Only entries at or after this ISO date or timestamp'),
+    until: z.string().optional().describe('Only entries up to this ISO date (inclusive) or timestamp'),
+    limit: z.number().int().positive().optional().describe('Maximum number of entries to return (default 100)'),
+  }),
+  outputSchema: z.array(AuditEntrySchema),
+  structuredKey: 'entries',
+  annotations: {
+    title: 'Get audit log',
+    readOnlyHint: true,
+    openWorldHint: false,
+  },
+  async handler(args, context) {
+    // Without a project reference the whole log is searched
+    const hasProject = Boolean(args.project || args.projectId || args.projectName);
+    const projectId = hasProject ? await resolveProjectId(context, args) : undefined;
+    return context.profileContext.auditLog.query({
+      projectId,
+      since: args.since,
+      until: args.until,
+      limit: args.limit ?? 100,
+    });
+  },
+});
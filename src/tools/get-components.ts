@@ -0,0 +1,35 @@
+import { z } from 'zod';
+import { ProjectReferenceSchema } from '../project-resolver.js';
+import { YamlUtils } from '../yaml-utils.js';
+import { RefreshSchema, operationOptions, resolveProjectId } from './shared.js';
+import { defineTool } from './types.js';
+
+export const getComponentsTool = defineTool({
+  name: 'get_components',
+  description: 'Extract and list all custom components from a FlutterFlow project',
+  inputSchema: ProjectReferenceSchema.extend({
+    refresh: RefreshSchema,
+  }),
+  outputSchema: z.array(z.object({
+    filename: z.string(),
+    name: z.string(),
+    definition: z.any(),
+    properties: z.any(),
+    widgets: z.array(z.any()),
+  })),
+  structuredKey: 'components',
+  annotations: {
+    title: 'Get components',
+    readOnlyHint: true,
+    openWorldHint: true,
+  },
+  async handler(args, context) {
+    const projectId = await resolveProjectId(context, args);
+    const files = await context.profileContext.snapshotCache.getProjectFiles(projectId, {
+      refresh: args.refresh === true,
+      partitions: ['components'],
+      ...operationOptions(context),
+    });
+    return YamlUtils.extractComponents(files);
+  },
+});
@@ -0,0 +1,39 @@
+import { z } from 'zod';
+import { ProjectReferenceSchema } from '../project-resolver.js';
+import { YamlUtils } from '../yaml-utils.js';
+import { RefreshSchema, operationOptions, resolveProjectId } from './shared.js';
+import { defineTool } from './types.js';
+
+const CustomCodeEntrySchema = z.object({
+  filename: z.string(),
+  name: z.string().nullish(),
+  definition: z.any(),
+  code: z.string(),
+}).passthrough();
+
+export const getCustomCodeTool = defineTool({
+  name: 'get_custom_code',
+  description: 'Extract all custom code (actions, functions, widgets) from a FlutterFlow project',
+  inputSchema: ProjectReferenceSchema.extend({
+    refresh: RefreshSchema,
+  }),
+  outputSchema: z.object({
+    actions: z.array(CustomCodeEntrySchema),
+    functions: z.array(CustomCodeEntrySchema),
+    widgets: z.array(CustomCodeEntrySchema),
+  }),
+  annotations: {
+    title: 'Get custom code',
+    readOnlyHint: true,
+    openWorldHint: true,
+  },
+  async handler(args, context) {
+    const projectId = await resolveProjectId(context, args);
+    const files = await context.profileContext.snapshotCache.getProjectFiles(projectId, {
+      refresh: args.refresh,
+      partitions: ['custom_code'],
+      ...operationOptions(context),
+    });
+    return YamlUtils.extractCustomCode(files);
+  },
+});
@@ -0,0 +1,35 @@
+import { z } from 'zod';
+import { ProjectReferenceSchema } from '../project-resolver.js';
+import { YamlUtils } from '../yaml-utils.js';
+import { RefreshSchema, operationOptions, resolveProjectId } from './shared.js';
+import { defineTool } from './types.js';
+
+export const getDatabaseCollectionsTool = defineTool({
+  name: 'get_database_collections',
+  description: 'Extract database collections and schemas from a FlutterFlow project',
+  inputSchema: ProjectReferenceSchema.extend({
+    refresh: RefreshSchema,
+  }),
+  outputSchema: z.array(z.object({
+    filename: z.string(),
+    name: z.string(),
+    definition: z.any(),
+    fields: z.any(),
+    indexes: z.any(),
+  })),
+  structuredKey: 'collections',
+  annotations: {
+    title: 'Get database collections',
+    readOnlyHint: true,
+    openWorldHint: true,
+  },
+  async handler(args, context) {
+    const projectId = await resolveProjectId(context, args);
+    const files = await context.profileContext.snapshotCache.getProjectFiles(projectId, {
+      refresh: args.refresh,
+      partitions: ['collections'],
+      ...operationOptions(context),
+    });
+    return YamlUtils.extractDatabaseCollections(files);
+  },
+});
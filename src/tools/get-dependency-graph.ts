@@ -0,0 +1,56 @@
+import { z } from 'zod';
+import { toDot, toMermaid } from '../graph-format.js';
+import { ProjectReferenceSchema } from '../project-resolver.js';
+import { ProjectPartition, YamlUtils } from '../yaml-utils.js';
+import { RefreshSchema, operationOptions, resolveProjectId } from './shared.js';
+import { defineTool } from './types.js';
+
+// Everything the reference graph is built from
+export const GRAPH_PARTITIONS: ProjectPartition[] = ['pages', 'components', 'custom_code', 'collections', 'app_state'];
+
+export const GraphNodeKindSchema = z.enum(['page', 'component', 'action', 'function', 'widget', 'collection', 'appState']);
+
+export const GraphNodeSchema = z.object({
+  id: z.string(),
+  kind: GraphNodeKindSchema,
+  name: z.string(),
+  filename: z.string().optional(),
+});
+
+export const GraphEdgeSchema = z.object({
+  from: z.string(),
+  to: z.string(),
+  paths: z.array(z.string()),
+});
+
+export const getDependencyGraphTool = defineTool({
+  name: 'get_dependency_graph',
+  description: 'Build the reference graph of a project: which pages, components and custom code use which components, custom actions/functions/widgets, collections, app-state variables and pages',
+  inputSchema: ProjectReferenceSchema.extend({
+    format: z.enum(['json', 'mermaid', 'dot']).optional()
+      .describe('json (default) returns nodes and edges; mermaid and dot also render them as a diagram'),
+    refresh: RefreshSchema,
+  }),
+  outputSchema: z.object({
+    nodes: z.array(GraphNodeSchema),
+    edges: z.array(GraphEdgeSchema),
+    diagram: z.string().optional(),
+  }),
+  annotations: {
+    title: 'Get dependency graph',
+    readOnlyHint: true,
+    openWorldHint: true,
+  },
+  async handler(args, context) {
+    const projectId = await resolveProjectId(context, args);
+    const files = await context.profileContext.snapshotCache.getProjectFiles(projectId, {
+      refresh: args.refresh === true,
+      partitions: GRAPH_PARTITIONS,
+      ...operationOptions(context),
+    });
+    const graph = YamlUtils.buildReferenceGraph(files);
+    const format = args.format ?? 'json';
+    return format === 'json' ? graph : { ...graph, diagram: format === 'mermaid' ? toMermaid(graph) : toDot(graph) };
+  },
+  formatText: output => output.diagram ?? JSON.stringify(output, null, 2),
+});
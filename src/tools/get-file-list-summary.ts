@@ -0,0 +1,38 @@
+import { z } from 'zod';
+import { ProjectReferenceSchema } from '../project-resolver.js';
+import { operationOptions, resolveProjectId } from './shared.js';
+import { defineTool } from './types.js';
+
+export const getFileListSummaryTool = defineTool({
+  name: 'get_file_list_summary',
+  description: 'Get a list of files in the project with size information without downloading content',
+  inputSchema: ProjectReferenceSchema,
+  outputSchema: z.object({
+    projectId: z.string(),
+    totalFiles: z.number(),
+    files: z.array(z.object({
+      name: z.string(),
+      category: z.enum(['component', 'page', 'database', 'custom_code', 'other']),
+    })),
+  }),
+  annotations: {
+    title: 'Get file list summary',
+    readOnlyHint: true,
+    openWorldHint: true,
+  },
+  async handler(args, context) {
+    const projectId = await resolveProjectId(context, args);
+    const files = await context.profileContext.flutterflowAPI.getProjectFiles(projectId, operationOptions(context));
+    return {
+      projectId,
+      totalFiles: files.length,
+      files: files.map(file => ({
+        name: file,
+        category: file.includes('components') ? 'component' as const :
+                  file.includes('pages') ? 'page' as const :
+                  file.includes('collections') ? 'database' as const :
+                  file.includes('custom_code') ? 'custom_code' as const : 'other' as const,
+      })),
+    };
+  },
+});
@@ -0,0 +1,36 @@
+import { z } from 'zod';
+import { ProjectReferenceSchema } from '../project-resolver.js';
+import { YamlUtils } from '../yaml-utils.js';
+import { RefreshSchema, operationOptions, resolveProjectId } from './shared.js';
+import { defineTool } from './types.js';
+
+export const getPagesTool = defineTool({
+  name: 'get_pages',
+  description: 'Extract and list all pages from a FlutterFlow project',
+  inputSchema: ProjectReferenceSchema.extend({
+    refresh: RefreshSchema,
+  }),
+  outputSchema: z.array(z.object({
+    filename: z.string(),
+    name: z.string(),
+    route: z.string().nullish(),
+    definition: z.any(),
+    widgets: z.array(z.any()),
+    actions: z.array(z.any()),
+  })),
+  structuredKey: 'pages',
+  annotations: {
+    title: 'Get pages',
+    readOnlyHint: true,
+    openWorldHint: true,
+  },
+  async handler(args, context) {
+    const projectId = await resolveProjectId(context, args);
+    const files = await context.profileContext.snapshotCache.getProjectFiles(projectId, {
+      refresh: args.refresh === true,
+      partitions: ['pages'],
+      ...operationOptions(context),
+    });
+    return YamlUtils.extractPages(files);
+  },
+});
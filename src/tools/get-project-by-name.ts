@@ -0,0 +1,24 @@
+import { z } from 'zod';
+import { ProjectSchema } from '../flutterflow-api.js';
+import { matchProject } from '../project-resolver.js';
+import { operationOptions } from './shared.js';
+import { defineTool } from './types.js';
+
+export const getProjectByNameTool = defineTool({
+  name: 'get_project_by_name',
+  description: 'Find a FlutterFlow project by its name and get project details',
+  inputSchema: z.object({
+    projectName: z.string()
+      .describe('The FlutterFlow project name. Exact and case-insensitive matches win; otherwise an unambiguous partial name is accepted'),
+  }),
+  outputSchema: ProjectSchema,
+  annotations: {
+    title: 'Find project by name',
+    readOnlyHint: true,
+    openWorldHint: true,
+  },
+  async handler({ projectName }, context) {
+    const projects = await context.profileContext.flutterflowAPI.listProjects(operationOptions(context));
+    return matchProject(projects, projectName, { matchIds: false });
+  },
+});
@@ -0,0 +1,21 @@
+import { z } from 'zod';
+import { ProjectReferenceSchema } from '../project-resolver.js';
+import { operationOptions, resolveProjectId } from './shared.js';
+import { defineTool } from './types.js';
+
+export const getProjectFilesTool = defineTool({
+  name: 'get_project_files',
+  description: 'Get list of YAML files in a FlutterFlow project',
+  inputSchema: ProjectReferenceSchema,
+  outputSchema: z.array(z.string()),
+  structuredKey: 'files',
+  annotations: {
+    title: 'List project files',
+    readOnlyHint: true,
+    openWorldHint: true,
+  },
+  async handler(args, context) {
+    const projectId = await resolveProjectId(context, args);
+    return context.profileContext.flutterflowAPI.getProjectFiles(projectId, operationOptions(context));
+  },
+});
@@ -0,0 +1,45 @@
+import { z } from 'zod';
+import { ProjectReferenceSchema } from '../project-resolver.js';
+import { operationOptions, resolveProjectId } from './shared.js';
+import { defineTool } from './types.js';
+
+const CATEGORIES = ['components', 'pages', 'collections', 'custom_code'];
+
+export const getProjectSummaryTool = defineTool({
+  name: 'get_project_summary',
+  description: 'Get a lightweight summary of a FlutterFlow project without loading full YAML content',
+  inputSchema: ProjectReferenceSchema,
+  outputSchema: z.object({
+    projectId: z.string(),
+    totalFiles: z.number(),
+    fileCategories: z.object({
+      components: z.number(),
+      pages: z.number(),
+      collections: z.number(),
+      customCode: z.number(),
+      other: z.number(),
+    }),
+    recommendation: z.string(),
+  }),
+  annotations: {
+    title: 'Get project summary',
+    readOnlyHint: true,
+    openWorldHint: true,
+  },
+  async handler(args, context) {
+    const projectId = await resolveProjectId(context, args);
+    const files = await context.profileContext.flutterflowAPI.getProjectFiles(projectId, operationOptions(context));
+    return {
+      projectId,
+      totalFiles: files.length,
+      fileCategories: {
+        components: files.filter(f => f.includes('components')).length,
+        pages: files.filter(f => f.includes('pages')).length,
+        collections: files.filter(f => f.includes('collections')).length,
+        customCode: files.filter(f => f.includes('custom_code')).length,
+        other: files.filter(f => !CATEGORIES.some(cat => f.includes(cat))).length,
+      },
+      recommendation: files.length > 50 ? 'Use summary endpoints for this large project' : 'Full YAML processing should work',
+    };
+  },
+});
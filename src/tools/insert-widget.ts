@@ -0,0 +1,47 @@
+import { z } from 'zod';
+import { ProjectReferenceSchema } from '../project-resolver.js';
+import { YamlUtils } from '../yaml-utils.js';
+import {
+  CommitMessageSchema,
+  DryRunSchema,
+  WidgetEditResultSchema,
+  WidgetSchema,
+  WidgetTargetSchema,
+  commitWidgetEdit,
+  operationOptions,
+  resolveProjectId,
+} from './shared.js';
+import { defineTool } from './types.js';
+
+export const insertWidgetTool = defineTool({
+  name: 'insert_widget',
+  description: 'Insert a widget as a child of another widget (or at the top level of a page or component), leaving the rest of the tree untouched',
+  inputSchema: ProjectReferenceSchema.extend({
+    parent: WidgetTargetSchema.describe('The widget to insert into; give just page or component (no path) to insert at the top level'),
+    widget: WidgetSchema.describe('The widget to insert, with its own children if any'),
+    index: z.number().int().nonnegative().optional().describe('Position among the parent\'s children (default: last)'),
+    commitMessage: CommitMessageSchema,
+    dryRun: DryRunSchema,
+  }),
+  outputSchema: WidgetEditResultSchema,
+  annotations: {
+    title: 'Insert widget',
+    readOnlyHint: false,
+    destructiveHint: false,
+    idempotentHint: false,
+    openWorldHint: true,
+  },
+  async handler(args, context) {
+    const projectId = await resolveProjectId(context, args);
+    const files = await context.profileContext.snapshotCache.getProjectFiles(projectId, {
+      refresh: true,
+      ...operationOptions(context),
+    });
+    const edit = YamlUtils.insertWidget(files, args.parent, args.widget, args.index);
+    return commitWidgetEdit(context, projectId, files, edit, {
+      tool: 'insert_widget',
+      commitMessage: args.commitMessage,
+      dryRun: args.dryRun,
+    });
+  },
+});
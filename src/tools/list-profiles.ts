@@ -0,0 +1,23 @@
+import { z } from 'zod';
+import { defineTool } from './types.js';
+
+export const listProfilesTool = defineTool({
+  name: 'list_profiles',
+  description: 'List the configured FlutterFlow credential profiles (names only, never tokens)',
+  inputSchema: z.object({}),
+  outputSchema: z.object({
+    defaultProfile: z.string().optional(),
+    profiles: z.array(z.string()),
+  }),
+  annotations: {
+    title: 'List credential profiles',
+    readOnlyHint: true,
+    openWorldHint: false,
+  },
+  async handler(_args, { serverContext }) {
+    return {
+      defaultProfile: serverContext.credentials.defaultProfile,
+      profiles: serverContext.credentials.listProfiles(),
+    };
+  },
+});
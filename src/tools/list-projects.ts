@@ -0,0 +1,59 @@
+import { z } from 'zod';
+import { CancelledError, FlutterFlowError } from '../errors.js';
+import { ProjectSchema } from '../flutterflow-api.js';
+import { operationOptions } from './shared.js';
+import { defineTool } from './types.js';
+
+const ProfileErrorSchema = z.object({
+  profile: z.string(),
+  error: z.record(z.unknown()),
+});
+
+export const listProjectsTool = defineTool({
+  name: 'list_projects',
+  description: 'List all FlutterFlow projects in your account, or across every configured profile',
+  inputSchema: z.object({
+    allProfiles: z.boolean().optional()
+      .describe('List projects from every configured profile, tagging each with its profile'),
+  }),
+  outputSchema: z.object({
+    // Projects carry their profile when listing across profiles
+    projects: z.array(ProjectSchema.extend({ profile: z.string().optional() })),
+    errors: z.array(ProfileErrorSchema).optional(),
+  }),
+  annotations: {
+    title: 'List projects',
+    readOnlyHint: true,
+    openWorldHint: true,
+  },
+  async handler({ allProfiles }, context) {
+    const { serverContext, profileContext } = context;
+    const operation = operationOptions(context);
+    if (!allProfiles) {
+      return { projects: await profileContext.flutterflowAPI.listProjects(operation) };
+    }
+
+    // A failing profile is reported next to the results instead of hiding the projects from the others
+    const projects: Array<z.infer<typeof ProjectSchema> & { profile: string }> = [];
+    const errors: Array<z.infer<typeof ProfileErrorSchema>> = [];
+
+    for (const profile of serverContext.credentials.listProfiles()) {
+      try {
+        const profileProjects = await serverContext.forProfile(profile).flutterflowAPI.listProjects(operation);
+        projects.push(...profileProjects.map(project => ({ ...project, profile })));
+      } catch (error) {
+        if (error instanceof CancelledError) {
+          throw error;
+        }
+        errors.push({
+          profile,
+          error: error instanceof FlutterFlowError ? error.toJSON() : { message: String(error) },
+        });
+      }
+    }
+
+    return { projects, errors };
+  },
+  // A single profile's listing keeps its original plain-array text form
+  formatText: output => JSON.stringify(output.errors ? output : output.projects, null, 2),
+});
@@ -0,0 +1,30 @@
+import { z } from 'zod';
+import { ProjectReferenceSchema } from '../project-resolver.js';
+import { resolveProjectId } from './shared.js';
+import { defineTool } from './types.js';
+
+export const SnapshotMetadataSchema = z.object({
+  id: z.string(),
+  projectId: z.string(),
+  createdAt: z.string(),
+  tool: z.string(),
+  commitMessage: z.string().optional(),
+  fileCount: z.number(),
+});
+
+export const listSnapshotsTool = defineTool({
+  name: 'list_snapshots',
+  description: 'List locally saved pre-change snapshots of a FlutterFlow project, newest first',
+  inputSchema: ProjectReferenceSchema,
+  outputSchema: z.array(SnapshotMetadataSchema),
+  structuredKey: 'snapshots',
+  annotations: {
+    title: 'List snapshots',
+    readOnlyHint: true,
+    openWorldHint: false,
+  },
+  async handler(args, context) {
+    const projectId = await resolveProjectId(context, args);
+    return context.profileContext.snapshotStore.list(projectId);
+  },
+});
@@ -0,0 +1,46 @@
+import { z } from 'zod';
+import { ProjectReferenceSchema } from '../project-resolver.js';
+import { YamlUtils } from '../yaml-utils.js';
+import {
+  CommitMessageSchema,
+  DryRunSchema,
+  WidgetEditResultSchema,
+  WidgetTargetSchema,
+  commitWidgetEdit,
+  operationOptions,
+  resolveProjectId,
+} from './shared.js';
+import { defineTool } from './types.js';
+
+export const moveWidgetTool = defineTool({
+  name: 'move_widget',
+  description: 'Move a widget to a new parent (or position) within the same page or component',
+  inputSchema: ProjectReferenceSchema.merge(WidgetTargetSchema).extend({
+    parent: WidgetTargetSchema.describe('The new parent; give just page or component (no path) to move to the top level'),
+    index: z.number().int().nonnegative().optional()
+      .describe('Position among the new parent\'s children, counted after the widget has been taken out (default: last)'),
+    commitMessage: CommitMessageSchema,
+    dryRun: DryRunSchema,
+  }),
+  outputSchema: WidgetEditResultSchema,
+  annotations: {
+    title: 'Move widget',
+    readOnlyHint: false,
+    destructiveHint: false,
+    idempotentHint: false,
+    openWorldHint: true,
+  },
+  async handler(args, context) {
+    const projectId = await resolveProjectId(context, args);
+    const files = await context.profileContext.snapshotCache.getProjectFiles(projectId, {
+      refresh: true,
+      ...operationOptions(context),
+    });
+    const edit = YamlUtils.moveWidget(files, args, args.parent, args.index);
+    return commitWidgetEdit(context, projectId, files, edit, {
+      tool: 'move_widget',
+      commitMessage: args.commitMessage,
+      dryRun: args.dryRun,
+    });
+  },
+});
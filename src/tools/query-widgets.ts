@@ -0,0 +1,48 @@
+import { z } from 'zod';
+import { ProjectReferenceSchema } from '../project-resolver.js';
+import { YamlUtils } from '../yaml-utils.js';
+import { RefreshSchema, operationOptions, resolveProjectId } from './shared.js';
+import { defineTool } from './types.js';
+
+export const WidgetMatchSchema = z.object({
+  filename: z.string(),
+  kind: z.enum(['page', 'component']),
+  owner: z.string(),
+  path: z.string(),
+  typePath: z.string(),
+  widget: z.any(),
+  childCount: z.number(),
+});
+
+export const queryWidgetsTool = defineTool({
+  name: 'query_widgets',
+  description: 'Find widgets in pages and components with a CSS-like selector instead of dumping whole widget trees',
+  inputSchema: ProjectReferenceSchema.extend({
+    selector: z.string().describe(
+      'Widget selector, e.g. `Page:HomePage Column > Button[text*="Sign"]`. '
+        + 'Type (`Button`, `*`), name (`#SignIn`), properties (`[text]`, `[text="Hi"]`, `!=`, `*=` contains, `^=` starts with, `$=` ends with, dotted paths like `[padding.top=8]`), '
+        + 'descendant (`A B`) and child (`A > B`) combinators, a leading `Page:<name>` or `Component:<name>` scope (`*` for all) and `,` for alternatives'
+    ),
+    limit: z.number().int().positive().optional().describe('Maximum number of matches to return (default 100)'),
+    refresh: RefreshSchema,
+  }),
+  outputSchema: z.object({
+    total: z.number(),
+    matches: z.array(WidgetMatchSchema),
+  }),
+  annotations: {
+    title: 'Query widgets',
+    readOnlyHint: true,
+    openWorldHint: true,
+  },
+  async handler(args, context) {
+    const projectId = await resolveProjectId(context, args);
+    const files = await context.profileContext.snapshotCache.getProjectFiles(projectId, {
+      refresh: args.refresh === true,
+      partitions: ['pages', 'components'],
+      ...operationOptions(context),
+    });
+    const matches = YamlUtils.queryWidgets(files, args.selector);
+    return { total: matches.length, matches: matches.slice(0, args.limit ?? 100) };
+  },
+});
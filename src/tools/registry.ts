@@ -0,0 +1,244 @@
+import { z, ZodError } from 'zod';
+import { zodToJsonSchema } from 'zod-to-json-schema';
+import { CallToolResult, Tool } from '@modelcontextprotocol/sdk/types.js';
+import {
+  ArgumentValidationError,
+  FlutterFlowError,
+  InvalidArgumentError,
+  UnexpectedResponseError,
+  WriteForbiddenError,
+} from '../errors.js';
+import { createLogger } from '../logger.js';
+import { ServerContext } from '../server-context.js';
+import { ToolContext, ToolDefinition } from './types.js';
+import { listProjectsTool } from './list-projects.js';
+import { listProfilesTool } from './list-profiles.js';
+import { getProjectFilesTool } from './get-project-files.js';
+import { downloadProjectYamlTool } from './download-project-yaml.js';
+import { getComponentsTool } from './get-components.js';
+import { getProjectByNameTool } from './get-project-by-name.js';
+import { getPagesTool } from './get-pages.js';
+import { getCustomCodeTool } from './get-custom-code.js';
+import { getDatabaseCollectionsTool } from './get-database-collections.js';
+import { getAppStateTool } from './get-app-state.js';
+import { getProjectSummaryTool } from './get-project-summary.js';
+import { getFileListSummaryTool } from './get-file-list-summary.js';
+import { queryWidgetsTool } from './query-widgets.js';
+import { findReferencesTool } from './find-references.js';
+import { getDependencyGraphTool } from './get-dependency-graph.js';
+import { diagnoseProjectTool } from './diagnose-project.js';
+import { updateComponentTool } from './update-component.js';
+import { updatePageTool } from './update-page.js';
+import { insertWidgetTool } from './insert-widget.js';
+import { moveWidgetTool } from './move-widget.js';
+import { wrapWidgetTool } from './wrap-widget.js';
+import { replaceWidgetTool } from './replace-widget.js';
+import { deleteWidgetTool } from './delete-widget.js';
+import { addCustomActionTool } from './add-custom-action.js';
+import { addCustomFunctionTool } from './add-custom-function.js';
+import { addDatabaseCollectionTool } from './add-database-collection.js';
+import { validateProjectYamlTool } from './validate-project-yaml.js';
+import { updateProjectYamlTool } from './update-project-yaml.js';
+import { listSnapshotsTool } from './list-snapshots.js';
+import { rollbackToSnapshotTool } from './rollback-to-snapshot.js';
+import { getAuditLogTool } from './get-audit-log.js';
+
+type AnyToolDefinition = ToolDefinition<any, any>;
+
+const logger = createLogger('tools');
+
+export const toolDefinitions: AnyToolDefinition[] = [
+  listProjectsTool,
+  listProfilesTool,
+  getProjectFilesTool,
+  downloadProjectYamlTool,
+  getComponentsTool,
+  getProjectByNameTool,
+  getPagesTool,
+  getCustomCodeTool,
+  getDatabaseCollectionsTool,
+  getAppStateTool,
+  getProjectSummaryTool,
+  getFileListSummaryTool,
+  queryWidgetsTool,
+  findReferencesTool,
+  getDependencyGraphTool,
+  diagnoseProjectTool,
+  updateComponentTool,
+  updatePageTool,
+  insertWidgetTool,
+  moveWidgetTool,
+  wrapWidgetTool,
+  replaceWidgetTool,
+  deleteWidgetTool,
+  addCustomActionTool,
+  addCustomFunctionTool,
+  addDatabaseCollectionTool,
+  validateProjectYamlTool,
+  updateProjectYamlTool,
+  listSnapshotsTool,
+  rollbackToSnapshotTool,
+  getAuditLogTool,
+];
+
+export function isWriteTool(tool: AnyToolDefinition): boolean {
+  return tool.annotations.readOnlyHint !== true;
+}
+
+// Every tool can run against any configured credentials profile
+const ProfileArgumentSchema = z.object({
+  profile: z.string().optional()
+    .describe('Credentials profile to use (see list_profiles). Defaults to the default profile'),
+});
+
+// Write tools accept the token handed out by the two-step confirmation flow
+const ConfirmationArgumentSchema = z.object({
+  confirmationToken: z.string().optional()
+    .describe('Token returned by a previous call that required confirmation; pass it to commit that exact change'),
+});
+
+function inputSchemaFor(tool: AnyToolDefinition): z.AnyZodObject {
+  const schema = tool.inputSchema.merge(ProfileArgumentSchema);
+  return isWriteTool(tool) ? schema.merge(ConfirmationArgumentSchema) : schema;
+}
+
+// zodToJsonSchema's generic signature is too deep for the compiler on large schemas
+const convertSchema = zodToJsonSchema as unknown as (schema: z.ZodTypeAny, options: object) => Record<string, unknown>;
+
+export function toJsonSchema(schema: z.ZodTypeAny): Tool['inputSchema'] {
+  const { $schema: _schema, ...jsonSchema } = convertSchema(schema, { $refStrategy: 'none' });
+  return jsonSchema as Tool['inputSchema'];
+}
+
+function structuredSchemaFor(tool: AnyToolDefinition): z.ZodTypeAny {
+  return tool.outputSchema instanceof z.ZodObject
+    ? tool.outputSchema
+    : z.object({ [tool.structuredKey ?? 'result']: tool.outputSchema });
+}
+
+function toStructuredContent(tool: AnyToolDefinition, output: unknown): Record<string, unknown> {
+  return tool.outputSchema instanceof z.ZodObject
+    ? output as Record<string, unknown>
+    : { [tool.structuredKey ?? 'result']: output };
+}
+
+let listedTools: Array<{ tool: Tool; write: boolean }> | undefined;
+
+/**
+ * Tool metadata for ListTools. Write tools are left out when the server's
+ * write policy makes them unusable, so clients never offer them.
+ */
+export function listTools(serverContext?: Pick<ServerContext, 'writePolicy'>): Tool[] {
+  listedTools ??= toolDefinitions.map(tool => ({
+    write: isWriteTool(tool),
+    tool: {
+      name: tool.name,
+      title: tool.annotations.title,
+      description: tool.description,
+      inputSchema: toJsonSchema(inputSchemaFor(tool)),
+      outputSchema: toJsonSchema(structuredSchemaFor(tool)),
+      annotations: tool.annotations,
+    },
+  }));
+  const writesEnabled = serverContext?.writePolicy.writesEnabled ?? true;
+  return listedTools.filter(entry => writesEnabled || !entry.write).map(entry => entry.tool);
+}
+
+/**
+ * Flattens zod issues into one entry per field. Union failures (e.g. a patch
+ * that is neither an array nor an object) list what each branch expected.
+ */
+export function describeIssues(error: ZodError): Array<{ path: string; message: string }> {
+  return error.issues.map(issue => {
+    const path = issue.path.join('.') || '(arguments)';
+    if (issue.code === 'invalid_union') {
+      const messages = new Set(issue.unionErrors.flatMap(unionError => unionError.issues.map(i => i.message)));
+      return { path, message: [...messages].join(' or ') };
+    }
+    return { path, message: issue.message };
+  });
+}
+
+export function parseToolArguments(tool: AnyToolDefinition, args: unknown): Record<string, any> {
+  const parsed = inputSchemaFor(tool).safeParse(args ?? {});
+  if (!parsed.success) {
+    const issues = describeIssues(parsed.error);
+    throw new ArgumentValidationError(
+      `Invalid arguments for ${tool.name}: ${issues.map(issue => `${issue.path}: ${issue.message}`).join('; ')}`,
+      issues
+    );
+  }
+  return parsed.data;
+}
+
+export function toolErrorResult(error: unknown): CallToolResult {
+  const payload = error instanceof FlutterFlowError
+    ? error.toJSON()
+    : {
+        code: 'INTERNAL_ERROR',
+        type: error instanceof Error ? error.name : 'Error',
+        message: error instanceof Error ? error.message : String(error),
+        retryable: false,
+      };
+
+  return {
+    content: [
+      {
+        type: 'text',
+        text: JSON.stringify({ error: payload }, null, 2),
+      },
+    ],
+    isError: true,
+  };
+}
+
+/**
+ * Validates the arguments against the tool's schema, runs its handler with
+ * the requested profile and returns the result both as text and as
+ * structuredContent matching the advertised output schema. Failures come back as tool
+ * errors rather than protocol errors so the model can react to them.
+ */
+export async function callTool(
+  name: string,
+  args: unknown,
+  context: Omit<ToolContext, 'profileContext'>
+): Promise<CallToolResult> {
+  try {
+    const tool = toolDefinitions.find(definition => definition.name === name);
+    if (!tool) {
+      throw new InvalidArgumentError(`Unknown tool: ${name}`);
+    }
+    if (isWriteTool(tool) && !context.serverContext.writePolicy.writesEnabled) {
+      throw new WriteForbiddenError(`${name} is unavailable: the server is running in read-only mode`);
+    }
+
+    const { profile, confirmationToken, ...toolArgs } = parseToolArguments(tool, args);
+    const profileContext = context.serverContext.forProfile(profile);
+    const output = await tool.handler(toolArgs, { ...context, profileContext, confirmationToken });
+    const structuredContent = toStructuredContent(tool, output);
+
+    // Clients reject structuredContent that doesn't match the advertised schema,
+    // so a mismatch is reported here as a tool error that says what drifted
+    const checked = structuredSchemaFor(tool).safeParse(structuredContent);
+    if (!checked.success) {
+      const issues = describeIssues(checked.error);
+      logger.warning(`Output of ${tool.name} does not match its output schema`, { issues });
+      throw new UnexpectedResponseError(
+        `${tool.name} produced a result that does not match its output schema, likely because FlutterFlow `
+          + `returned data in an unexpected shape: ${issues.map(issue => `${issue.path}: ${issue.message}`).join('; ')}`
+      );
+    }
+
+    return {
+      content: [
+        {
+          type: 'text',
+          text: tool.formatText ? tool.formatText(output) : JSON.stringify(output, null, 2),
+        },
+      ],
+      structuredContent,
+    };
+  } catch (error) {
+    return toolErrorResult(error);
+  }
+}
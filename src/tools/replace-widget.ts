@@ -0,0 +1,44 @@
+import { ProjectReferenceSchema } from '../project-resolver.js';
+import { YamlUtils } from '../yaml-utils.js';
+import {
+  CommitMessageSchema,
+  DryRunSchema,
+  WidgetEditResultSchema,
+  WidgetSchema,
+  WidgetTargetSchema,
+  commitWidgetEdit,
+  operationOptions,
+  resolveProjectId,
+} from './shared.js';
+import { defineTool } from './types.js';
+
+export const replaceWidgetTool = defineTool({
+  name: 'replace_widget',
+  description: 'Replace a widget (and its subtree) with a new widget, leaving the rest of the tree untouched',
+  inputSchema: ProjectReferenceSchema.merge(WidgetTargetSchema).extend({
+    widget: WidgetSchema.describe('The replacement widget, with its own children if any'),
+    commitMessage: CommitMessageSchema,
+    dryRun: DryRunSchema,
+  }),
+  outputSchema: WidgetEditResultSchema,
+  annotations: {
+    title: 'Replace widget',
+    readOnlyHint: false,
+    destructiveHint: true,
+    idempotentHint: true,
+    openWorldHint: true,
+  },
+  async handler(args, context) {
+    const projectId = await resolveProjectId(context, args);
+    const files = await context.profileContext.snapshotCache.getProjectFiles(projectId, {
+      refresh: true,
+      ...operationOptions(context),
+    });
+    const edit = YamlUtils.replaceWidget(files, args, args.widget);
+    return commitWidgetEdit(context, projectId, files, edit, {
+      tool: 'replace_widget',
+      commitMessage: args.commitMessage,
+      dryRun: args.dryRun,
+    });
+  },
+});
@@ -0,0 +1,82 @@
+import { z } from 'zod';
+import { ProjectReferenceSchema } from '../project-resolver.js';
+import { YamlUtils } from '../yaml-utils.js';
+import {
+  CommitResultSchema,
+  FileDiffSchema,
+  commitProjectFiles,
+  operationOptions,
+  resolveProjectId,
+} from './shared.js';
+import { defineTool } from './types.js';
+
+export const rollbackToSnapshotTool = defineTool({
+  name: 'rollback_to_snapshot',
+  description: 'Restore a FlutterFlow project to a saved snapshot. Returns a diff preview unless confirm is true. Files created after the snapshot cannot be deleted and are listed under notDeleted',
+  inputSchema: ProjectReferenceSchema.extend({
+    snapshotId: z.string().describe('ID of the snapshot to restore (see list_snapshots)'),
+    confirm: z.boolean().optional().describe('Set to true to push the snapshot after reviewing the diff preview'),
+    commitMessage: z.string().optional().describe('Optional commit message for the rollback'),
+  }),
+  outputSchema: CommitResultSchema.extend({
+    snapshot: z.object({
+      id: z.string(),
+      createdAt: z.string(),
+      tool: z.string(),
+      commitMessage: z.string().optional(),
+    }),
+    changes: z.array(FileDiffSchema).optional(),
+    fullRestore: z.boolean()
+      .describe('Whether the project will match the snapshot exactly; false when files created since cannot be deleted'),
+    notDeleted: z.array(z.string()).optional()
+      .describe('Files created after the snapshot that the rollback leaves in place'),
+    warning: z.string().optional(),
+  }),
+  annotations: {
+    title: 'Roll back to snapshot',
+    readOnlyHint: false,
+    destructiveHint: true,
+    idempotentHint: true,
+    openWorldHint: true,
+  },
+  async handler(args, context) {
+    const projectId = await resolveProjectId(context, args);
+    const { snapshotCache, snapshotStore } = context.profileContext;
+    const snapshot = await snapshotStore.get(projectId, args.snapshotId);
+    const currentFiles = await snapshotCache.getProjectFiles(projectId, {
+      refresh: true,
+      ...operationOptions(context),
+    });
+    // FlutterFlow's upload can only add or overwrite files, so files created
+    // after the snapshot stay in the project; only the others are restored
+    const notDeleted = Object.keys(currentFiles).filter(filename => !(filename in snapshot.files)).sort();
+    const restorableFiles = Object.fromEntries(
+      Object.entries(currentFiles).filter(([filename]) => filename in snapshot.files)
+    );
+    const restore = {
+      snapshot: { id: snapshot.id, createdAt: snapshot.createdAt, tool: snapshot.tool, commitMessage: snapshot.commitMessage },
+      fullRestore: notDeleted.length === 0,
+      ...(notDeleted.length > 0 ? {
+        notDeleted,
+        warning: `The rollback cannot delete ${notDeleted.length} file(s) created after the snapshot; remove them in FlutterFlow: ${notDeleted.join(', ')}`,
+      } : {}),
+    };
+
+    if (args.confirm === true && YamlUtils.changedFiles(snapshot.files, restorableFiles).length === 0) {
+      return { ...restore, projectId, changes: [], uploaded: { files: [], partitions: [] } };
+    }
+
+    // Without confirm this is a preview of what the rollback would change
+    const result = await commitProjectFiles(context, projectId, restorableFiles, snapshot.files, {
+      tool: 'rollback_to_snapshot',
+      commitMessage: args.commitMessage || `Rollback to snapshot ${snapshot.id} (${snapshot.createdAt})`,
+      dryRun: args.confirm !== true,
+      baseFiles: currentFiles,
+    });
+    return {
+      ...restore,
+      ...(args.confirm === true ? { changes: YamlUtils.diffProjectFiles(restorableFiles, snapshot.files) } : {}),
+      ...result,
+    };
+  },
+});
@@ -0,0 +1,327 @@
+import { z } from 'zod';
+import { ValidationResponseSchema } from '../flutterflow-api.js';
+import { elicitCommitConfirmation, summarizeChanges, supportsElicitation } from '../confirmations.js';
+import { ProjectReference, resolveProjectReference } from '../project-resolver.js';
+import { AuditEntry, hashProjectFiles } from '../audit-log.js';
+import { FlutterFlowError, InvalidArgumentError, ValidationError } from '../errors.js';
+import { createLogger } from '../logger.js';
+import { OperationOptions, throwIfAborted } from '../progress.js';
+import { EncodedChanges, FileDiff, ProjectYamlFiles, WidgetEditResult, YamlUtils } from '../yaml-utils.js';
+import { ToolContext } from './types.js';
+
+const logger = createLogger('audit');
+
+export const RefreshSchema = z.boolean().optional()
+  .describe('Bypass the local snapshot cache and download fresh YAML');
+
+export const DryRunSchema = z.boolean().optional()
+  .describe('Preview the change as a per-file YAML diff plus validation result without committing');
+
+export const CommitMessageSchema = z.string().optional().describe('Optional commit message');
+
+/**
+ * Either an RFC 6902 JSON Patch array or an RFC 7396 merge patch object.
+ * Individual operations are checked by applyPatch, which reports the index
+ * of the failing operation.
+ */
+export const PatchSchema = z.union([z.array(z.record(z.any())), z.record(z.any())]);
+
+/**
+ * Arguments addressing a single widget; see YamlUtils.resolveWidgetTarget.
+ */
+export const WidgetTargetSchema = z.object({
+  selector: z.string().optional()
+    .describe('Widget selector (see query_widgets) that matches exactly one widget, e.g. `Page:HomePage Button#SignIn`'),
+  page: z.string().optional().describe('Page holding the widget, when addressing it by path'),
+  component: z.string().optional().describe('Component holding the widget, when addressing it by path'),
+  path: z.string().optional()
+    .describe('JSON Pointer to the widget inside the page or component definition, e.g. /widgets/0/children/1 (as returned by query_widgets)'),
+});
+
+export const WidgetSchema = z.object({
+  type: z.string().describe('Widget type, e.g. Text, Column, Padding'),
+  name: z.string().optional(),
+  properties: z.record(z.any()).optional(),
+  children: z.array(z.record(z.any())).optional(),
+}).passthrough();
+
+export const FileDiffSchema = z.object({
+  filename: z.string(),
+  status: z.enum(['added', 'modified', 'removed']),
+  diff: z.string(),
+});
+
+/**
+ * Result of commitProjectFiles: a dry-run preview, a pending change waiting
+ * for its confirmation token, or FlutterFlow's update response plus the id
+ * of the snapshot saved before the change.
+ */
+export const CommitResultSchema = z.object({
+  dryRun: z.boolean().optional(),
+  confirmationRequired: z.boolean().optional(),
+  confirmationToken: z.string().optional(),
+  expiresAt: z.string().optional(),
+  summary: z.object({
+    files: z.number(),
+    linesAdded: z.number(),
+    linesRemoved: z.number(),
+  }).optional(),
+  projectId: z.string().optional(),
+  commitMessage: z.string().optional(),
+  changes: z.array(FileDiffSchema).optional(),
+  validation: ValidationResponseSchema.optional(),
+  snapshotId: z.string().optional(),
+  uploaded: z.object({
+    files: z.array(z.string()),
+    partitions: z.array(z.string()),
+  }).optional().describe('Files (and the partitions they belong to) sent to FlutterFlow, or that would be sent'),
+}).passthrough();
+
+export type CommitResult = z.infer<typeof CommitResultSchema>;
+
+// Widget edits also report where the edited widget ended up
+export const WidgetEditResultSchema = CommitResultSchema.extend({
+  widget: z.object({
+    filename: z.string(),
+    kind: z.enum(['page', 'component']),
+    owner: z.string(),
+    path: z.string(),
+  }),
+});
+
+export interface CommitOptions {
+  tool: string;
+  commitMessage?: string;
+  dryRun?: boolean;
+  // Pre-encoded zip to send instead of re-encoding updatedFiles
+  yamlContent?: string;
+  // Full pre-change project, when originalFiles only covers the touched files
+  baseFiles?: ProjectYamlFiles;
+  // Run FlutterFlow's validator before committing and refuse invalid changes
+  validate?: boolean;
+}
+
+/**
+ * The cancellation signal and progress reporter of the current request, in
+ * the shape the API client, cache and decoder accept.
+ */
+export function operationOptions({ signal, onProgress }: ToolContext): OperationOptions {
+  return { signal, onProgress };
+}
+
+export async function resolveProjectId(context: ToolContext, reference: ProjectReference): Promise<string> {
+  return resolveProjectReference(context.profileContext.flutterflowAPI, reference, operationOptions(context));
+}
+
+/**
+ * Pushes modified project files to FlutterFlow. Only added and modified files
+ * are uploaded, and the result lists them under `uploaded`. In dry-run mode
+ * nothing is committed; the caller gets a per-file diff and the validation
+ * result instead.
+ * Real commits are checked against the write policy and, unless disabled,
+ * approved by the user: through elicitation when the client supports it,
+ * otherwise by calling again with the returned confirmation token. Committed
+ * changes save the pre-change project so they can be rolled back.
+ */
+export async function commitProjectFiles(
+  context: ToolContext,
+  projectId: string,
+  originalFiles: ProjectYamlFiles,
+  updatedFiles: ProjectYamlFiles,
+  options: CommitOptions
+): Promise<CommitResult> {
+  const { server, serverContext, profileContext, confirmationToken } = context;
+  const { flutterflowAPI, snapshotCache, snapshotStore } = profileContext;
+  const operation = operationOptions(context);
+
+  let upload: EncodedChanges;
+  if (options.yamlContent !== undefined) {
+    const files = Object.keys(updatedFiles).sort();
+    upload = { yamlContent: options.yamlContent, files, partitions: YamlUtils.partitionsOf(files) };
+  } else {
+    operation.onProgress?.({ stage: 'encode', message: 'Encoding added and modified files' });
+    upload = YamlUtils.encodeChanges(updatedFiles, originalFiles);
+  }
+  const { yamlContent } = upload;
+  const uploaded = { files: upload.files, partitions: upload.partitions };
+  const changes = YamlUtils.diffProjectFiles(originalFiles, updatedFiles);
+
+  if (options.dryRun) {
+    // An empty zip has nothing to validate
+    const validation = uploaded.files.length > 0
+      ? await flutterflowAPI.validateProjectYAML(projectId, yamlContent, operation)
+      : undefined;
+    return {
+      dryRun: true,
+      projectId,
+      commitMessage: options.commitMessage,
+      changes,
+      validation,
+      uploaded,
+    };
+  }
+
+  serverContext.writePolicy.assertWritable(projectId);
+  if (uploaded.files.length === 0) {
+    throw new InvalidArgumentError('Nothing to commit: the change does not add or modify any file');
+  }
+  if (options.validate) {
+    const validation = await flutterflowAPI.validateProjectYAML(projectId, yamlContent, operation);
+    if (!validation.valid) {
+      throw new ValidationError(`FlutterFlow rejected the change: ${validation.errors.join('; ')}`);
+    }
+  }
+
+  if (serverContext.writePolicy.requireConfirmation) {
+    const pending = { tool: options.tool, projectId, changes };
+    if (confirmationToken) {
+      serverContext.confirmations.consume(confirmationToken, pending);
+    } else if (supportsElicitation(server)) {
+      await elicitCommitConfirmation(server, { ...pending, commitMessage: options.commitMessage });
+    } else {
+      const { token, expiresAt } = serverContext.confirmations.issue(pending);
+      return {
+        confirmationRequired: true,
+        confirmationToken: token,
+        expiresAt,
+        projectId,
+        commitMessage: options.commitMessage,
+        summary: summarizeChanges(changes),
+        changes,
+        uploaded,
+      };
+    }
+  }
+
+  const audit = (details: Pick<AuditEntry, 'outcome' | 'snapshotId' | 'result' | 'error'>) =>
+    recordCommit(server, profileContext, projectId, originalFiles, updatedFiles, changes, options, details);
+
+  // Last point where cancelling is guaranteed to leave the project untouched
+  throwIfAborted(operation.signal);
+
+  // The rollback point is saved before uploading: a commit without one must not happen
+  const snapshot = await snapshotStore.save(projectId, options.baseFiles ?? originalFiles, {
+    tool: options.tool,
+    commitMessage: options.commitMessage,
+  });
+
+  let result: any;
+  try {
+    result = await flutterflowAPI.updateProjectYAML(projectId, yamlContent, options.commitMessage, operation);
+  } catch (error) {
+    const auditError = {
+      code: error instanceof FlutterFlowError ? error.code : undefined,
+      message: error instanceof Error ? error.message : String(error),
+    };
+    // Only an HTTP error response proves FlutterFlow did not apply the change.
+    // After a cancel or a dropped connection it may have, so the rollback point stays.
+    if (error instanceof FlutterFlowError && error.status !== undefined) {
+      await discardSnapshot(snapshotStore, projectId, snapshot.id);
+      await audit({ outcome: 'failed', error: auditError });
+    } else {
+      await audit({ outcome: 'unknown', snapshotId: snapshot.id, error: auditError });
+      await invalidateSnapshotCache(snapshotCache, projectId);
+    }
+    throw error;
+  }
+
+  // Recorded before anything else can fail, so every real write is in the log
+  await audit({ outcome: 'committed', snapshotId: snapshot.id, result });
+
+  await invalidateSnapshotCache(snapshotCache, projectId);
+  return { ...result, snapshotId: snapshot.id, uploaded };
+}
+
+/**
+ * Commits a single-widget edit. The result is always checked with
+ * FlutterFlow's validator first, since a broken tree is easy to produce by
+ * moving or wrapping nodes.
+ */
+export async function commitWidgetEdit(
+  context: ToolContext,
+  projectId: string,
+  originalFiles: ProjectYamlFiles,
+  edit: WidgetEditResult,
+  options: CommitOptions
+): Promise<z.infer<typeof WidgetEditResultSchema>> {
+  const result = await commitProjectFiles(context, projectId, originalFiles, edit.files, { ...options, validate: true });
+  return { ...result, widget: edit.location };
+}
+
+/**
+ * Drops the snapshot saved for a commit that FlutterFlow refused, so it
+ * doesn't show up as a rollback point. Failing to delete it is harmless.
+ */
+async function discardSnapshot(
+  snapshotStore: ToolContext['profileContext']['snapshotStore'],
+  projectId: string,
+  snapshotId: string
+): Promise<void> {
+  try {
+    await snapshotStore.remove(projectId, snapshotId);
+  } catch (error) {
+    logger.warning('Failed to discard snapshot of a failed commit', {
+      projectId,
+      snapshotId,
+      error: error instanceof Error ? error.message : String(error),
+    });
+  }
+}
+
+async function invalidateSnapshotCache(
+  snapshotCache: ToolContext['profileContext']['snapshotCache'],
+  projectId: string
+): Promise<void> {
+  try {
+    await snapshotCache.invalidate(projectId);
+  } catch (error) {
+    // The upload already happened (or may have); a stale cache entry must not turn it into an error
+    logger.error('Failed to invalidate the snapshot cache after a commit', {
+      projectId,
+      error: error instanceof Error ? error.message : String(error),
+    });
+  }
+}
+
+/**
+ * Appends a commit attempt to the profile's audit log. The commit has
+ * already happened (or failed) by now, so a log that can't be written is
+ * reported rather than turned into a tool error.
+ */
+async function recordCommit(
+  server: ToolContext['server'],
+  { profile, auditLog }: ToolContext['profileContext'],
+  projectId: string,
+  originalFiles: ProjectYamlFiles,
+  updatedFiles: ProjectYamlFiles,
+  changes: FileDiff[],
+  options: CommitOptions,
+  details: Pick<AuditEntry, 'outcome' | 'snapshotId' | 'result' | 'error'>
+): Promise<void> {
+  const filenames = changes.map(change => change.filename);
+  const clientVersion = server.getClientVersion();
+  try {
+    await auditLog.append({
+      timestamp: new Date().toISOString(),
+      tool: options.tool,
+      projectId,
+      profile,
+      client: {
+        name: clientVersion?.name,
+        version: clientVersion?.version,
+        sessionId: server.transport?.sessionId,
+      },
+      commitMessage: options.commitMessage,
+      files: changes.map(({ filename, status }) => ({ filename, status })),
+      hashBefore: hashProjectFiles(originalFiles, filenames),
+      hashAfter: hashProjectFiles(updatedFiles, filenames),
+      ...details,
+    });
+  } catch (error) {
+    logger.error('Failed to write audit log entry', {
+      projectId,
+      tool: options.tool,
+      error: error instanceof Error ? error.message : String(error),
+    });
+  }
+}
@@ -0,0 +1,50 @@
+import { z } from 'zod';
+import { Server } from '@modelcontextprotocol/sdk/server/index.js';
+import { ToolAnnotations } from '@modelcontextprotocol/sdk/types.js';
+import { ProfileContext, ServerContext } from '../server-context.js';
+import { ProgressReporter } from '../progress.js';
+
+/**
+ * What a tool handler gets besides its arguments: the server it runs in, all
+ * configured profiles, and the profile selected for this call.
+ */
+export interface ToolContext {
+  server: Server;
+  serverContext: ServerContext;
+  profileContext: ProfileContext;
+  // Token from an earlier call, for clients that confirm commits in two steps
+  confirmationToken?: string;
+  // Aborted when the client cancels the request
+  signal?: AbortSignal;
+  // Set when the client asked for progress notifications
+  onProgress?: ProgressReporter;
+}
+
+export interface ToolDefinition<
+  Input extends z.AnyZodObject = z.AnyZodObject,
+  Output extends z.ZodTypeAny = z.ZodTypeAny,
+> {
+  name: string;
+  description: string;
+  inputSchema: Input;
+  outputSchema: Output;
+  /**
+   * structuredContent must be an object, so output that isn't one (arrays,
+   * strings, nullable values) is wrapped under this key. Defaults to "result".
+   */
+  structuredKey?: string;
+  annotations: ToolAnnotations;
+  handler: (args: z.infer<Input>, context: ToolContext) => Promise<z.infer<Output>>;
+  // Renders the text content; defaults to pretty-printed JSON
+  formatText?: (output: z.infer<Output>) => string;
+}
+
+/**
+ * Identity helper that ties the handler's argument and return types to the
+ * declared schemas.
+ */
+export function defineTool<Input extends z.AnyZodObject, Output extends z.ZodTypeAny>(
+  tool: ToolDefinition<Input, Output>
+): ToolDefinition<Input, Output> {
+  return tool;
+}
@@ -0,0 +1,50 @@
+import { z } from 'zod';
+import { JsonPatchOperation } from '../json-patch.js';
+import { ProjectReferenceSchema } from '../project-resolver.js';
+import { YamlUtils } from '../yaml-utils.js';
+import {
+  CommitMessageSchema,
+  CommitResultSchema,
+  DryRunSchema,
+  PatchSchema,
+  commitProjectFiles,
+  operationOptions,
+  resolveProjectId,
+} from './shared.js';
+import { defineTool } from './types.js';
+
+export const updatePageTool = defineTool({
+  name: 'update_page',
+  description: 'Update a specific page in a FlutterFlow project',
+  inputSchema: ProjectReferenceSchema.extend({
+    pageName: z.string().describe('Name of the page to update'),
+    updates: PatchSchema.describe('Page updates to apply: an RFC 7396 merge patch object (nested objects are merged, null deletes a key) or an RFC 6902 JSON Patch array with paths relative to the page definition, e.g. [{ "op": "replace", "path": "/widgets/0/properties/text", "value": "Hi" }]'),
+    commitMessage: CommitMessageSchema,
+    dryRun: DryRunSchema,
+  }),
+  outputSchema: CommitResultSchema,
+  annotations: {
+    title: 'Update page',
+    readOnlyHint: false,
+    destructiveHint: true,
+    idempotentHint: false,
+    openWorldHint: true,
+  },
+  async handler(args, context) {
+    const projectId = await resolveProjectId(context, args);
+    const files = await context.profileContext.snapshotCache.getProjectFiles(projectId, {
+      refresh: true,
+      ...operationOptions(context),
+    });
+    const updatedFiles = YamlUtils.updatePage(
+      files,
+      args.pageName,
+      args.updates as JsonPatchOperation[] | Record<string, any>
+    );
+    return commitProjectFiles(context, projectId, files, updatedFiles, {
+      tool: 'update_page',
+      commitMessage: args.commitMessage,
+      dryRun: args.dryRun,
+    });
+  },
+});
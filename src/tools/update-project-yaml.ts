@@ -0,0 +1,42 @@
+import { z } from 'zod';
+import { ProjectReferenceSchema } from '../project-resolver.js';
+import { YamlUtils } from '../yaml-utils.js';
+import { CommitResultSchema, DryRunSchema, commitProjectFiles, operationOptions, resolveProjectId } from './shared.js';
+import { defineTool } from './types.js';
+
+export const updateProjectYamlTool = defineTool({
+  name: 'update_project_yaml',
+  description: 'Update a FlutterFlow project with new YAML configuration',
+  inputSchema: ProjectReferenceSchema.extend({
+    yamlContent: z.string().describe('Base64-encoded zip file containing YAML files to update'),
+    commitMessage: z.string().optional().describe('Optional commit message for the update'),
+    dryRun: DryRunSchema,
+  }),
+  outputSchema: CommitResultSchema,
+  annotations: {
+    title: 'Update project YAML',
+    readOnlyHint: false,
+    destructiveHint: true,
+    idempotentHint: false,
+    openWorldHint: true,
+  },
+  async handler(args, context) {
+    const projectId = await resolveProjectId(context, args);
+    // Only the files in the uploaded zip are compared; the rest of the project is untouched
+    const uploadedFiles = await YamlUtils.decodeProjectYamlAsync(args.yamlContent, operationOptions(context));
+    const currentFiles = await context.profileContext.snapshotCache.getProjectFiles(projectId, {
+      refresh: true,
+      ...operationOptions(context),
+    });
+    const currentUploadedFiles = Object.fromEntries(
+      Object.keys(uploadedFiles).filter(f => f in currentFiles).map(f => [f, currentFiles[f]])
+    );
+    return commitProjectFiles(context, projectId, currentUploadedFiles, uploadedFiles, {
+      tool: 'update_project_yaml',
+      commitMessage: args.commitMessage,
+      dryRun: args.dryRun,
+      yamlContent: args.yamlContent,
+      baseFiles: currentFiles,
+    });
+  },
+});
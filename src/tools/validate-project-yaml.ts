@@ -0,0 +1,23 @@
+import { z } from 'zod';
+import { ValidationResponseSchema } from '../flutterflow-api.js';
+import { ProjectReferenceSchema } from '../project-resolver.js';
+import { operationOptions, resolveProjectId } from './shared.js';
+import { defineTool } from './types.js';
+
+export const validateProjectYamlTool = defineTool({
+  name: 'validate_project_yaml',
+  description: 'Validate YAML configuration before updating a FlutterFlow project',
+  inputSchema: ProjectReferenceSchema.extend({
+    yamlContent: z.string().describe('Base64-encoded zip file containing YAML files to validate'),
+  }),
+  outputSchema: ValidationResponseSchema,
+  annotations: {
+    title: 'Validate project YAML',
+    readOnlyHint: true,
+    openWorldHint: true,
+  },
+  async handler(args, context) {
+    const projectId = await resolveProjectId(context, args);
+    return context.profileContext.flutterflowAPI.validateProjectYAML(projectId, args.yamlContent, operationOptions(context));
+  },
+});
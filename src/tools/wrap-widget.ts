@@ -0,0 +1,44 @@
+import { ProjectReferenceSchema } from '../project-resolver.js';
+import { YamlUtils } from '../yaml-utils.js';
+import {
+  CommitMessageSchema,
+  DryRunSchema,
+  WidgetEditResultSchema,
+  WidgetSchema,
+  WidgetTargetSchema,
+  commitWidgetEdit,
+  operationOptions,
+  resolveProjectId,
+} from './shared.js';
+import { defineTool } from './types.js';
+
+export const wrapWidgetTool = defineTool({
+  name: 'wrap_widget',
+  description: 'Wrap a widget in a container such as Padding, Center or Column; the widget becomes the wrapper\'s only child',
+  inputSchema: ProjectReferenceSchema.merge(WidgetTargetSchema).extend({
+    wrapper: WidgetSchema.omit({ children: true }).describe('The wrapping widget, without children, e.g. { "type": "Padding", "properties": { "padding": 8 } }'),
+    commitMessage: CommitMessageSchema,
+    dryRun: DryRunSchema,
+  }),
+  outputSchema: WidgetEditResultSchema,
+  annotations: {
+    title: 'Wrap widget',
+    readOnlyHint: false,
+    destructiveHint: false,
+    idempotentHint: false,
+    openWorldHint: true,
+  },
+  async handler(args, context) {
+    const projectId = await resolveProjectId(context, args);
+    const files = await context.profileContext.snapshotCache.getProjectFiles(projectId, {
+      refresh: true,
+      ...operationOptions(context),
+    });
+    const edit = YamlUtils.wrapWidget(files, args, args.wrapper);
+    return commitWidgetEdit(context, projectId, files, edit, {
+      tool: 'wrap_widget',
+      commitMessage: args.commitMessage,
+      dryRun: args.dryRun,
+    });
+  },
+});
@@ -0,0 +1,70 @@
+import { InvalidArgumentError } from './errors.js';
+import { readFlag } from './cli-args.js';
+
+// `http` serves both Streamable HTTP (/mcp) and the legacy HTTP+SSE endpoints
+export type TransportKind = 'stdio' | 'http';
+
+export const TRANSPORT_KINDS: TransportKind[] = ['stdio', 'http'];
+
+export interface TransportConfig {
+  transport: TransportKind;
+  host: string;
+  port: number;
+  // Bearer token incoming HTTP clients must present; only optional on loopback hosts
+  authToken?: string;
+}
+
+const DEFAULT_HOST = '127.0.0.1';
+const DEFAULT_PORT = 3000;
+
+/**
+ * Whether a host only accepts connections from this machine. Anything else,
+ * including 0.0.0.0 and ::, is reachable from the network.
+ */
+export function isLoopbackHost(host: string): boolean {
+  const normalized = host.toLowerCase().replace(/^\[(.*)\]$/, '$1');
+  return normalized === 'localhost'
+    || normalized === '::1'
+    || /^127(\.\d{1,3}){3}$/.test(normalized)
+    || /^::ffff:127(\.\d{1,3}){3}$/.test(normalized);
+}
+
+/**
+ * Resolves how the server should be exposed. Command line flags
+ * (--transport, --host, --port) take precedence over MCP_TRANSPORT,
+ * MCP_HOST and MCP_PORT; stdio remains the default. Serving HTTP on a host
+ * other than loopback requires MCP_AUTH_TOKEN, since every client acts with
+ * the server's own FlutterFlow credentials.
+ */
+export function resolveTransportConfig(
+  argv: string[] = process.argv.slice(2),
+  env: NodeJS.ProcessEnv = process.env
+): TransportConfig {
+  const transport = (readFlag(argv, 'transport') ?? env.MCP_TRANSPORT ?? 'stdio').toLowerCase();
+  if (!TRANSPORT_KINDS.includes(transport as TransportKind)) {
+    throw new InvalidArgumentError(
+      `Unknown transport "${transport}": expected one of ${TRANSPORT_KINDS.join(', ')}`
+    );
+  }
+
+  const rawPort = readFlag(argv, 'port') ?? env.MCP_PORT;
+  const port = rawPort === undefined ? DEFAULT_PORT : Number(rawPort);
+  if (!Number.isInteger(port) || port < 0 || port > 65535) {
+    throw new InvalidArgumentError(`Invalid port "${rawPort}"`);
+  }
+
+  const host = readFlag(argv, 'host') ?? env.MCP_HOST ?? DEFAULT_HOST;
+  const authToken = env.MCP_AUTH_TOKEN || undefined;
+  if (transport !== 'stdio' && !authToken && !isLoopbackHost(host)) {
+    throw new InvalidArgumentError(
+      `Refusing to serve HTTP on ${host} without authentication: set MCP_AUTH_TOKEN or bind to 127.0.0.1`
+    );
+  }
+
+  return {
+    transport: transport as TransportKind,
+    host,
+    port,
+    authToken,
+  };
+}
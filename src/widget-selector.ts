@@ -0,0 +1,287 @@
+import { SelectorError } from './errors.js';
+
+export type AttributeOperator = '=' | '!=' | '*=' | '^=' | '$=';
+
+export interface AttributeTest {
+  // Dotted path, looked up in the widget's properties first, then on the widget
+  path: string[];
+  operator?: AttributeOperator;
+  value?: string;
+}
+
+/**
+ * One step of a selector: `Button#SignIn[text*="Sign"]` has type Button,
+ * name SignIn and one attribute test. Every part is optional.
+ */
+export interface CompoundSelector {
+  type?: string;
+  name?: string;
+  attributes: AttributeTest[];
+}
+
+export interface SelectorStep {
+  compound: CompoundSelector;
+  // How this step relates to the previous one: any ancestor or the parent
+  combinator: 'descendant' | 'child';
+}
+
+/**
+ * A parsed selector, e.g. `Page:HomePage Column > Button[text*="Sign"]`.
+ * `scope` limits matching to pages or components (optionally by name);
+ * the first step's combinator is `child` when it must be a top-level widget.
+ */
+export interface WidgetSelector {
+  scope?: { kind: 'page' | 'component'; name?: string };
+  steps: SelectorStep[];
+}
+
+const OPERATORS: AttributeOperator[] = ['!=', '*=', '^=', '$=', '='];
+const IDENTIFIER = /[A-Za-z0-9_-]/;
+
+class SelectorParser {
+  private position = 0;
+
+  constructor(private source: string) {}
+
+  parseList(): WidgetSelector[] {
+    const selectors: WidgetSelector[] = [];
+    do {
+      this.skipSpace();
+      selectors.push(this.parseSelector());
+      this.skipSpace();
+    } while (this.consume(','));
+
+    if (this.position < this.source.length) {
+      this.fail(`Unexpected "${this.source[this.position]}"`);
+    }
+    return selectors;
+  }
+
+  private parseSelector(): WidgetSelector {
+    const selector: WidgetSelector = { steps: [] };
+    const scope = /^(Page|Component):/.exec(this.source.slice(this.position));
+    if (scope) {
+      this.position += scope[0].length;
+      const name = this.consume('*') ? undefined : this.readIdentifier('a page or component name');
+      selector.scope = { kind: scope[1] === 'Page' ? 'page' : 'component', name };
+    }
+
+    for (;;) {
+      const hadSpace = this.skipSpace();
+      let combinator: SelectorStep['combinator'] = 'descendant';
+      if (this.consume('>')) {
+        combinator = 'child';
+        this.skipSpace();
+        if (this.atEnd() || this.peek() === ',') {
+          this.fail('Expected a widget after ">"');
+        }
+      } else if (this.atEnd() || this.peek() === ',' || ((selector.steps.length > 0 || selector.scope) && !hadSpace)) {
+        break;
+      }
+      selector.steps.push({ compound: this.parseCompound(), combinator });
+    }
+
+    if (selector.steps.length === 0) {
+      selector.steps.push({ compound: { attributes: [] }, combinator: 'descendant' });
+    }
+    return selector;
+  }
+
+  private parseCompound(): CompoundSelector {
+    const compound: CompoundSelector = { attributes: [] };
+    const start = this.position;
+
+    if (!this.consume('*') && IDENTIFIER.test(this.peek())) {
+      compound.type = this.readIdentifier('a widget type');
+    }
+    for (;;) {
+      if (this.consume('#')) {
+        compound.name = this.readIdentifier('a widget name');
+      } else if (this.consume('[')) {
+        compound.attributes.push(this.parseAttribute());
+      } else {
+        break;
+      }
+    }
+
+    if (this.position === start) {
+      this.fail(`Expected a widget type, "*", "#name" or "[property]" but found "${this.peek()}"`);
+    }
+    return compound;
+  }
+
+  private parseAttribute(): AttributeTest {
+    this.skipSpace();
+    const path = [this.readIdentifier('a property name')];
+    while (this.consume('.')) {
+      path.push(this.readIdentifier('a property name'));
+    }
+    this.skipSpace();
+
+    const operator = OPERATORS.find(candidate => this.source.startsWith(candidate, this.position));
+    let value: string | undefined;
+    if (operator) {
+      this.position += operator.length;
+      this.skipSpace();
+      value = this.readValue();
+      this.skipSpace();
+    }
+
+    if (!this.consume(']')) {
+      this.fail('Expected "]"');
+    }
+    return { path, operator, value };
+  }
+
+  private readValue(): string {
+    const quote = this.peek();
+    if (quote !== '"' && quote !== "'") {
+      // Unquoted values run up to the closing bracket, e.g. [size=12.5]
+      const bare = /^[^\s\]]+/.exec(this.source.slice(this.position));
+      if (!bare) {
+        this.fail('Expected a value');
+      }
+      this.position += bare[0].length;
+      return bare[0];
+    }
+
+    this.position++;
+    let value = '';
+    while (!this.atEnd() && this.peek() !== quote) {
+      if (this.peek() === '\\') {
+        this.position++;
+      }
+      value += this.source[this.position++] ?? '';
+    }
+    if (!this.consume(quote)) {
+      this.fail('Unterminated string');
+    }
+    return value;
+  }
+
+  private readIdentifier(expected: string): string {
+    const start = this.position;
+    while (!this.atEnd() && IDENTIFIER.test(this.peek())) {
+      this.position++;
+    }
+    if (this.position === start) {
+      this.fail(`Expected ${expected}`);
+    }
+    return this.source.slice(start, this.position);
+  }
+
+  private skipSpace(): boolean {
+    const start = this.position;
+    while (!this.atEnd() && /\s/.test(this.peek())) {
+      this.position++;
+    }
+    return this.position > start;
+  }
+
+  private consume(text: string): boolean {
+    if (this.source.startsWith(text, this.position)) {
+      this.position += text.length;
+      return true;
+    }
+    return false;
+  }
+
+  private peek(): string {
+    return this.source[this.position] ?? '';
+  }
+
+  private atEnd(): boolean {
+    return this.position >= this.source.length;
+  }
+
+  private fail(message: string): never {
+    throw new SelectorError(
+      `Invalid selector "${this.source}" at position ${this.position}: ${message}`,
+      this.source,
+      this.position
+    );
+  }
+}
+
+/**
+ * Parses a CSS-like widget selector. Supported syntax:
+ * - `Button`, `*`: widget type, or any widget
+ * - `#SignIn`: widget name
+ * - `[text]`, `[text="Hi"]`, `!=`, `*=` (contains), `^=` (starts with), `$=` (ends with);
+ *   dotted paths reach nested values, e.g. `[padding.top=8]`
+ * - `A B` (B anywhere inside A) and `A > B` (B a direct child of A)
+ * - `Page:HomePage`, `Component:*` as a leading scope
+ * - `,` to combine several selectors
+ */
+export function parseWidgetSelector(selector: string): WidgetSelector[] {
+  if (selector.trim() === '') {
+    throw new SelectorError('Selector must not be empty', selector, 0);
+  }
+  return new SelectorParser(selector).parseList();
+}
+
+function attributeValue(widget: any, path: string[]): unknown {
+  const lookup = (root: any) => path.reduce((value, key) => (value == null ? undefined : value[key]), root);
+  return lookup(widget?.properties) ?? lookup(widget);
+}
+
+function matchesAttribute(widget: any, test: AttributeTest): boolean {
+  const value = attributeValue(widget, test.path);
+  if (test.operator === undefined) {
+    return value !== undefined && value !== null;
+  }
+  if (test.operator === '!=') {
+    return value === undefined || value === null || typeof value === 'object' || String(value) !== test.value;
+  }
+  if (value === undefined || value === null || typeof value === 'object') {
+    return false;
+  }
+
+  const text = String(value);
+  const expected = test.value ?? '';
+  switch (test.operator) {
+    case '=':
+      return text === expected;
+    case '*=':
+      return text.includes(expected);
+    case '^=':
+      return text.startsWith(expected);
+    case '$=':
+      return text.endsWith(expected);
+  }
+}
+
+export function matchesCompound(widget: any, compound: CompoundSelector): boolean {
+  return (compound.type === undefined || widget?.type === compound.type)
+    && (compound.name === undefined || widget?.name === compound.name)
+    && compound.attributes.every(test => matchesAttribute(widget, test));
+}
+
+/**
+ * Checks a widget against a selector's steps, given its ancestors from the
+ * top-level widget down to its parent. Matching runs right to left like CSS:
+ * the last step must match the widget itself, earlier steps its ancestors.
+ */
+export function matchesSteps(widget: any, ancestors: any[], steps: SelectorStep[]): boolean {
+  const match = (stepIndex: number, node: any, depth: number): boolean => {
+    const step = steps[stepIndex];
+    if (!matchesCompound(node, step.compound)) {
+      return false;
+    }
+    if (stepIndex === 0) {
+      // A leading ">" pins the first step to the top level
+      return step.combinator === 'descendant' || depth === 0;
+    }
+    if (step.combinator === 'child') {
+      return depth > 0 && match(stepIndex - 1, ancestors[depth - 1], depth - 1);
+    }
+    for (let index = depth - 1; index >= 0; index--) {
+      if (match(stepIndex - 1, ancestors[index], index)) {
+        return true;
+      }
+    }
+    return false;
+  };
+
+  return match(steps.length - 1, widget, ancestors.length);
+}
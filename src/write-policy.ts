@@ -0,0 +1,73 @@
+import { WriteForbiddenError } from './errors.js';
+import { hasFlag, readFlag } from './cli-args.js';
+
+export interface WritePolicyOptions {
+  readOnly?: boolean;
+  writableProjects?: string[];
+  // Ask a human before every commit (defaults to true)
+  requireConfirmation?: boolean;
+}
+
+/**
+ * Decides which projects the server may change and whether a human has to
+ * approve each commit. In read-only mode nothing may be written unless the
+ * project is on the write allowlist; an allowlist on its own restricts writes
+ * to the listed projects.
+ */
+export class WritePolicy {
+  readonly readOnly: boolean;
+  readonly writableProjects?: ReadonlySet<string>;
+  readonly requireConfirmation: boolean;
+
+  constructor(options: WritePolicyOptions = {}) {
+    this.readOnly = options.readOnly ?? false;
+    this.writableProjects = options.writableProjects ? new Set(options.writableProjects) : undefined;
+    this.requireConfirmation = options.requireConfirmation ?? true;
+  }
+
+  /**
+   * Whether write tools should be offered at all. They are hidden only when
+   * no project could ever be written.
+   */
+  get writesEnabled(): boolean {
+    return !this.readOnly || (this.writableProjects?.size ?? 0) > 0;
+  }
+
+  canWrite(projectId: string): boolean {
+    if (this.writableProjects) {
+      return this.writableProjects.has(projectId);
+    }
+    return !this.readOnly;
+  }
+
+  assertWritable(projectId: string): void {
+    if (!this.canWrite(projectId)) {
+      throw new WriteForbiddenError(
+        this.writableProjects
+          ? `Project ${projectId} is not on the write allowlist`
+          : 'The server is running in read-only mode'
+      );
+    }
+  }
+}
+
+function parseList(value: string | undefined): string[] | undefined {
+  const entries = value?.split(',').map(entry => entry.trim()).filter(Boolean);
+  return entries && entries.length > 0 ? entries : undefined;
+}
+
+/**
+ * Reads --read-only / FLUTTERFLOW_READ_ONLY, the comma-separated
+ * --write-allowlist / FLUTTERFLOW_WRITE_ALLOWLIST of project IDs, and
+ * --no-confirm / FLUTTERFLOW_CONFIRM_WRITES=false to skip confirmations.
+ */
+export function resolveWritePolicy(
+  argv: string[] = process.argv.slice(2),
+  env: NodeJS.ProcessEnv = process.env
+): WritePolicy {
+  return new WritePolicy({
+    readOnly: hasFlag(argv, 'read-only') || env.FLUTTERFLOW_READ_ONLY === 'true',
+    writableProjects: parseList(readFlag(argv, 'write-allowlist') ?? env.FLUTTERFLOW_WRITE_ALLOWLIST),
+    requireConfirmation: !hasFlag(argv, 'no-confirm') && env.FLUTTERFLOW_CONFIRM_WRITES !== 'false',
+  });
+}
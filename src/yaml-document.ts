@@ -0,0 +1,130 @@
+import { isDeepStrictEqual } from 'util';
+import { Document, Node, Scalar, ScalarTag, Tags, isAlias, isMap, isPair, isScalar, isSeq, parseDocument } from 'yaml';
+
+/**
+ * Original text of decoded files, keyed by the parsed value. Tools replace a
+ * file's value when they change it (patches clone), so a value that still
+ * has its source here is unmodified and can be written back byte for byte.
+ */
+const sources = new WeakMap<object, string>();
+
+export function registerYamlSource(content: unknown, source: string): void {
+  if (typeof content === 'object' && content !== null) {
+    sources.set(content, source);
+  }
+}
+
+export function yamlSourceOf(content: unknown): string | undefined {
+  return typeof content === 'object' && content !== null ? sources.get(content) : undefined;
+}
+
+/**
+ * Numbers are written the way the file spelled them (`0x1F`, `1.50`, `1e3`)
+ * rather than in the stringifier's canonical form, as long as the value still
+ * comes from the source text.
+ */
+function keepNumberSpelling(tags: Tags): Tags {
+  return tags.map(tag => {
+    if (typeof tag === 'string' || !('test' in tag) || !tag.test || !tag.stringify) {
+      return tag;
+    }
+    if (tag.tag !== 'tag:yaml.org,2002:int' && tag.tag !== 'tag:yaml.org,2002:float') {
+      return tag;
+    }
+    const { test, stringify } = tag;
+    const numberTag: ScalarTag = {
+      ...tag,
+      stringify: (item: Scalar, ...rest) =>
+        typeof item.source === 'string' && test.test(item.source) ? item.source : stringify(item, ...rest),
+    };
+    return numberTag;
+  });
+}
+
+const parseOptions = { customTags: keepNumberSpelling };
+
+/**
+ * Parses a file the same way `updateYamlSource` reads it back, so values
+ * nobody touched compare equal to their nodes and keep their original text.
+ */
+export function parseYamlSource(source: string): unknown {
+  const doc = parseDocument(source, parseOptions);
+  if (doc.errors.length > 0) {
+    throw doc.errors[0];
+  }
+  return doc.toJS();
+}
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value) && !(value instanceof Date);
+}
+
+function keyOf(key: unknown): string {
+  return isScalar(key) ? String(key.value) : String(key);
+}
+
+/**
+ * Brings a document node in line with a plain value while touching as little
+ * as possible: map entries keep their order, comments and quoting, sequence
+ * items are updated in place, and only values that really differ get new
+ * nodes.
+ */
+function updateNode(doc: Document, node: unknown, value: unknown): unknown {
+  if (isAlias(node)) {
+    return isDeepStrictEqual(node.toJS(doc), value) ? node : doc.createNode(value);
+  }
+
+  if (isMap(node) && isPlainObject(value)) {
+    const present = Object.keys(value).filter(key => value[key] !== undefined);
+    node.items = node.items.filter(pair => isPair(pair) && present.includes(keyOf(pair.key)));
+    const existing = new Set<string>();
+    node.items.forEach(pair => {
+      const key = keyOf(pair.key);
+      existing.add(key);
+      pair.value = updateNode(doc, pair.value, value[key]);
+    });
+    present
+      .filter(key => !existing.has(key))
+      .forEach(key => node.items.push(doc.createPair(key, value[key])));
+    return node;
+  }
+
+  if (isSeq(node) && Array.isArray(value)) {
+    node.items = value.map((item, index) =>
+      index < node.items.length ? updateNode(doc, node.items[index], item) : doc.createNode(item)
+    );
+    return node;
+  }
+
+  // A scalar keeps its style (quotes, block strings) as long as its type does;
+  // maps and lists always get a node of their own, even in place of null
+  const scalarValue = value === null || typeof value !== 'object';
+  if (isScalar(node) && scalarValue && (node.value === null || typeof node.value === typeof value)) {
+    if (node.value !== value) {
+      node.value = value;
+      node.source = undefined;
+    }
+    return node;
+  }
+
+  return doc.createNode(value);
+}
+
+/**
+ * Serializes `value` by applying it onto the document parsed from `source`,
+ * so comments, key order, quoting and flow/block style of everything that
+ * didn't change survive. Returns undefined when the source can't be parsed
+ * as a single YAML document.
+ */
+export function updateYamlSource(source: string, value: unknown): string | undefined {
+  const doc: Document = parseDocument(source, parseOptions);
+  if (doc.errors.length > 0) {
+    return undefined;
+  }
+
+  doc.contents = updateNode(doc, doc.contents, value) as Node;
+
+  // Sequences are written the way the original file writes them
+  const indentSeq = !/^( *)[^\s#-][^\n]*:[ \t]*\n\1- /m.test(source);
+  return doc.toString({ lineWidth: 0, indentSeq });
+}
@@ -1,76 +1,263 @@
 import * as yaml from 'js-yaml';
 import AdmZip from 'adm-zip';
+import { createHash } from 'crypto';
+import { isDeepStrictEqual } from 'util';
 import { z } from 'zod';
+import { createTwoFilesPatch } from 'diff';
+import { JsonPatchOperation, applyPatch, parseJsonPointer } from './json-patch.js';
+import { CancelledError, InvalidArgumentError, NotFoundError } from './errors.js';
+import { createLogger } from './logger.js';
+import { OperationOptions, throwIfAborted } from './progress.js';
+import { parseYamlSource, registerYamlSource, updateYamlSource, yamlSourceOf } from './yaml-document.js';
+import { matchesSteps, parseWidgetSelector } from './widget-selector.js';
+
+const logger = createLogger('yaml-decoder');
+
+// Entries parsed between yields to the event loop when decoding asynchronously
+const DECODE_BATCH_SIZE = 25;
 
 export interface ProjectYamlFiles {
   [filename: string]: any;
 }
 
+export interface FileDiff {
+  filename: string;
+  status: 'added' | 'modified' | 'removed';
+  diff: string;
+}
+
+export type ProjectPartition = 'pages' | 'components' | 'collections' | 'custom_code' | 'app_state';
+
+/**
+ * Files selected for an update: the zip to send, the files in it and the
+ * partitions those files belong to.
+ */
+export interface EncodedChanges {
+  yamlContent: string;
+  files: string[];
+  partitions: ProjectPartition[];
+}
+
+/**
+ * A widget found by queryWidgets. `path` is a JSON Pointer from the page or
+ * component definition, so it can be used directly in update_page and
+ * update_component patches.
+ */
+export interface WidgetMatch {
+  filename: string;
+  kind: 'page' | 'component';
+  owner: string;
+  path: string;
+  // Widget types from the top level down to the match, e.g. "Scaffold > Column > Button"
+  typePath: string;
+  // The widget without its children
+  widget: any;
+  childCount: number;
+}
+
+/**
+ * Points at one widget, either with a selector that matches exactly one
+ * widget or with a page or component name plus the widget's JSON Pointer.
+ * For insertions the pointer may be left out to address the top level.
+ */
+export interface WidgetTarget {
+  selector?: string;
+  page?: string;
+  component?: string;
+  path?: string;
+}
+
+export type WidgetLocation = Pick<WidgetMatch, 'filename' | 'kind' | 'owner' | 'path'>;
+
+export interface WidgetEditResult {
+  files: ProjectYamlFiles;
+  // Where the edited widget is after the edit (where it was, for deletions)
+  location: WidgetLocation;
+}
+
+const WIDGET_PATH = /^\/widgets\/(0|[1-9]\d*)(\/children\/(0|[1-9]\d*))*$/;
+
+export type GraphNodeKind = 'page' | 'component' | 'action' | 'function' | 'widget' | 'collection' | 'appState';
+
+export interface GraphNode {
+  // `${kind}:${name}`, e.g. "component:CustomButton"
+  id: string;
+  kind: GraphNodeKind;
+  name: string;
+  filename?: string;
+}
+
+export interface GraphEdge {
+  from: string;
+  to: string;
+  // JSON Pointers inside the referencing definition where the reference was found
+  paths: string[];
+}
+
+export interface ReferenceGraph {
+  nodes: GraphNode[];
+  edges: GraphEdge[];
+}
+
+// Keys whose string value refers to another entity, and the kinds it can name.
+// Any other string (a Text widget's text, a label) is content, not a reference.
+const REFERENCE_KEYS: Record<string, GraphNodeKind[]> = {
+  type: ['component', 'widget'],
+  component: ['component'],
+  componentName: ['component'],
+  target: ['page'],
+  targetPage: ['page'],
+  page: ['page'],
+  pageName: ['page'],
+  action: ['action'],
+  actionName: ['action'],
+  customAction: ['action'],
+  function: ['function'],
+  functionName: ['function'],
+  customFunction: ['function'],
+  widget: ['widget'],
+  widgetName: ['widget'],
+  customWidget: ['widget'],
+  collection: ['collection'],
+  collectionName: ['collection'],
+  collectionRef: ['collection'],
+};
+
+// A widget's `type` names a component or custom widget; `type` elsewhere (e.g. of an action) doesn't
+const WIDGET_TYPE_PATH = /\/(widgets|children)\/(0|[1-9]\d*)\/type$/;
+
+export type WidgetVisitor = (widget: any, path: string, ancestors: any[]) => void;
+
+// Hash of each decoded file's value, taken when it was decoded
+const decodedHashes = new WeakMap<object, string>();
+
+const PARTITION_MATCHERS: Record<ProjectPartition, (filename: string) => boolean> = {
+  pages: filename => filename.includes('pages/'),
+  components: filename => filename.includes('components/'),
+  collections: filename => filename.includes('collections/'),
+  custom_code: filename => filename.includes('custom_code/'),
+  app_state: filename => /^(app-state|appState)(\.ya?ml)?$/.test(filename.split('/').pop() || ''),
+};
+
 export class YamlUtils {
   static decodeProjectYaml(base64Content: string): ProjectYamlFiles {
     try {
-      console.log(`[YAML Decoder] Starting decode - Base64 length: ${base64Content.length} chars`);
-      
-      const zipBuffer = Buffer.from(base64Content, 'base64');
-      console.log(`[YAML Decoder] Buffer created - Size: ${zipBuffer.length} bytes`);
-      
-      const zip = new AdmZip(zipBuffer);
-      console.log(`[YAML Decoder] ZIP archive opened successfully`);
-      
-      const entries = zip.getEntries();
-      console.log(`[YAML Decoder] Found ${entries.length} entries in ZIP`);
-      
+      const entries = this.openZip(base64Content);
       const files: ProjectYamlFiles = {};
-      let processedCount = 0;
-
-      entries.forEach((entry: any, index: number) => {
-        if (!entry.isDirectory && entry.entryName.endsWith('.yaml')) {
-          try {
-            console.log(`[YAML Decoder] Processing entry ${index + 1}/${entries.length}: ${entry.entryName} (${entry.header.size} bytes)`);
-            
-            const content = entry.getData().toString('utf8');
-            const parsed = yaml.load(content);
-            files[entry.entryName] = parsed;
-            processedCount++;
-          } catch (entryError) {
-            console.error(`[YAML Decoder] Failed to process ${entry.entryName}:`, entryError);
-            throw new Error(`Failed to process file ${entry.entryName}: ${entryError}`);
-          }
-        }
+      entries.forEach((entry, index) => this.decodeEntry(entry, index, entries.length, files));
+
+      logger.info(`Successfully processed ${Object.keys(files).length} YAML files`);
+      return files;
+    } catch (error: any) {
+      throw this.decodeError(error, base64Content);
+    }
+  }
+
+  /**
+   * Same as decodeProjectYaml, but reports unzip and parse progress and
+   * yields to the event loop between batches of entries, so a cancelled
+   * request is noticed and progress notifications go out while decoding.
+   */
+  static async decodeProjectYamlAsync(base64Content: string, options: OperationOptions = {}): Promise<ProjectYamlFiles> {
+    try {
+      throwIfAborted(options.signal);
+      options.onProgress?.({ stage: 'unzip', message: 'Opening ZIP archive' });
+      const entries = this.openZip(base64Content);
+      const yamlEntries = entries.filter(entry => !entry.isDirectory && entry.entryName.endsWith('.yaml'));
+      options.onProgress?.({
+        stage: 'unzip',
+        message: `Found ${yamlEntries.length} YAML files in ${entries.length} entries`,
+        completed: entries.length,
+        total: entries.length,
       });
 
-      console.log(`[YAML Decoder] Successfully processed ${processedCount} YAML files`);
+      const files: ProjectYamlFiles = {};
+      const reportEvery = Math.max(1, Math.ceil(yamlEntries.length / 20));
+      for (let index = 0; index < yamlEntries.length; index++) {
+        if (index % DECODE_BATCH_SIZE === 0) {
+          await new Promise(resolve => setImmediate(resolve));
+          throwIfAborted(options.signal);
+        }
+        this.decodeEntry(yamlEntries[index], index, yamlEntries.length, files);
+        if ((index + 1) % reportEvery === 0 || index + 1 === yamlEntries.length) {
+          options.onProgress?.({ stage: 'parse', message: 'Parsing YAML', completed: index + 1, total: yamlEntries.length });
+        }
+      }
+
+      logger.info(`Successfully processed ${Object.keys(files).length} YAML files`);
       return files;
     } catch (error: any) {
-      const errorDetails = {
-        message: error.message,
-        name: error.name,
-        code: error.code,
-        base64Length: base64Content.length,
-        bufferSize: base64Content ? Math.floor(base64Content.length * 0.75) : 0, // Approximate decoded size
-      };
-      
-      console.error('[YAML Decoder] Detailed error:', errorDetails);
-      
-      if (error.message.includes('Buffer') && error.message.includes('584')) {
-        throw new Error(`Buffer size limitation detected: Cannot process ZIP file of ${errorDetails.bufferSize} bytes. The MCP server has a 584-byte buffer limit. Try using summary endpoints instead, or contact support for large project handling.`);
+      if (error instanceof CancelledError) {
+        throw error;
       }
-      
-      throw new Error(`Failed to decode project YAML: ${error.message}. Details: ${JSON.stringify(errorDetails)}`);
+      throw this.decodeError(error, base64Content);
     }
   }
 
-  static encodeProjectYaml(files: ProjectYamlFiles): string {
+  private static openZip(base64Content: string): AdmZip.IZipEntry[] {
+    logger.debug(`Starting decode - Base64 length: ${base64Content.length} chars`);
+
+    const zipBuffer = Buffer.from(base64Content, 'base64');
+    logger.debug(`Buffer created - Size: ${zipBuffer.length} bytes`);
+
+    const zip = new AdmZip(zipBuffer);
+    logger.debug('ZIP archive opened successfully');
+
+    const entries = zip.getEntries();
+    logger.debug(`Found ${entries.length} entries in ZIP`);
+    return entries;
+  }
+
+  private static decodeEntry(entry: AdmZip.IZipEntry, index: number, total: number, files: ProjectYamlFiles): void {
+    if (entry.isDirectory || !entry.entryName.endsWith('.yaml')) {
+      return;
+    }
+    try {
+      logger.debug(`Processing entry ${index + 1}/${total}: ${entry.entryName} (${entry.header.size} bytes)`);
+
+      const content = entry.getData().toString('utf8');
+      files[entry.entryName] = parseYamlSource(content);
+      registerYamlSource(files[entry.entryName], content);
+      if (typeof files[entry.entryName] === 'object' && files[entry.entryName] !== null) {
+        decodedHashes.set(files[entry.entryName], this.hashContent(files[entry.entryName]));
+      }
+    } catch (entryError) {
+      logger.error(`Failed to process ${entry.entryName}`, { error: String(entryError) });
+      throw new Error(`Failed to process file ${entry.entryName}: ${entryError}`);
+    }
+  }
+
+  private static decodeError(error: any, base64Content: string): Error {
+    const errorDetails = {
+      message: error.message,
+      name: error.name,
+      code: error.code,
+      base64Length: base64Content.length,
+      bufferSize: base64Content ? Math.floor(base64Content.length * 0.75) : 0, // Approximate decoded size
+    };
+
+    logger.error('Failed to decode project YAML', errorDetails);
+
+    if (error.message.includes('Buffer') && error.message.includes('584')) {
+      return new Error(`Buffer size limitation detected: Cannot process ZIP file of ${errorDetails.bufferSize} bytes. The MCP server has a 584-byte buffer limit. Try using summary endpoints instead, or contact support for large project handling.`);
+    }
+
+    return new Error(`Failed to decode project YAML: ${error.message}. Details: ${JSON.stringify(errorDetails)}`);
+  }
+
+  /**
+   * Zips the files back up. Files decoded from FlutterFlow and left untouched
+   * are written exactly as downloaded; files changed since `baseFiles` was
+   * decoded keep the formatting and comments of their original text. Only
+   * files without an original (added, or loaded from the cache) are dumped
+   * from scratch.
+   */
+  static encodeProjectYaml(files: ProjectYamlFiles, baseFiles: ProjectYamlFiles = {}): string {
     try {
       const zip = new AdmZip();
 
       Object.entries(files).forEach(([filename, content]) => {
-        const yamlContent = yaml.dump(content, {
-          indent: 2,
-          lineWidth: -1,
-          noRefs: true,
-        });
-        zip.addFile(filename, Buffer.from(yamlContent, 'utf8'));
+        zip.addFile(filename, Buffer.from(this.serializeFile(content, baseFiles[filename]), 'utf8'));
       });
 
       return zip.toBuffer().toString('base64');
@@ -79,6 +266,73 @@ export class YamlUtils {
     }
   }
 
+  /**
+   * Zips just the files that were added or modified relative to `baseFiles`,
+   * so an update only sends what changed instead of the whole project.
+   */
+  static encodeChanges(files: ProjectYamlFiles, baseFiles: ProjectYamlFiles): EncodedChanges {
+    const changed = this.changedFiles(files, baseFiles);
+    const changedFiles = Object.fromEntries(changed.map(filename => [filename, files[filename]]));
+    return {
+      yamlContent: this.encodeProjectYaml(changedFiles, baseFiles),
+      files: changed,
+      partitions: this.partitionsOf(changed),
+    };
+  }
+
+  /**
+   * Names of the files in `files` that are new or whose content differs from
+   * `baseFiles`. Decoded files are compared against the hash taken when they
+   * were decoded, so edits made in place are caught as well.
+   */
+  static changedFiles(files: ProjectYamlFiles, baseFiles: ProjectYamlFiles): string[] {
+    return Object.keys(files).filter(filename => {
+      if (!(filename in baseFiles)) {
+        return true;
+      }
+      const base = baseFiles[filename];
+      const baseHash = (typeof base === 'object' && base !== null ? decodedHashes.get(base) : undefined)
+        ?? this.hashContent(base);
+      return this.hashContent(files[filename]) !== baseHash;
+    }).sort();
+  }
+
+  static hashContent(content: any): string {
+    return createHash('sha256').update(JSON.stringify(content) ?? 'undefined').digest('hex');
+  }
+
+  /**
+   * Produces a unified YAML diff for every file that differs between two
+   * decoded snapshots. Both sides are serialized the same way the encoder
+   * would, so the diff shows exactly what an update would send.
+   */
+  static diffProjectFiles(before: ProjectYamlFiles, after: ProjectYamlFiles): FileDiff[] {
+    const filenames = Array.from(new Set([...Object.keys(before), ...Object.keys(after)])).sort();
+    const diffs: FileDiff[] = [];
+
+    filenames.forEach(filename => {
+      const oldYaml = filename in before ? this.serializeFile(before[filename]) : '';
+      const newYaml = filename in after ? this.serializeFile(after[filename], before[filename]) : '';
+      if (oldYaml === newYaml) {
+        return;
+      }
+
+      const status = !(filename in before) ? 'added' : !(filename in after) ? 'removed' : 'modified';
+      diffs.push({
+        filename,
+        status,
+        diff: createTwoFilesPatch(
+          status === 'added' ? '/dev/null' : `a/${filename}`,
+          status === 'removed' ? '/dev/null' : `b/${filename}`,
+          oldYaml,
+          newYaml
+        ),
+      });
+    });
+
+    return diffs;
+  }
+
   static extractComponents(files: ProjectYamlFiles): any[] {
     const components: any[] = [];
     
@@ -198,8 +452,192 @@ export class YamlUtils {
     } : null;
   }
 
-  static updateComponent(files: ProjectYamlFiles, componentName: string, updates: any): ProjectYamlFiles {
+  /**
+   * Runs a widget selector (see parseWidgetSelector) over every page and
+   * component and returns the matching widgets in document order. A scope
+   * naming a page or component that doesn't exist is an error rather than
+   * an empty result, so a typo isn't mistaken for "no matches".
+   */
+  static queryWidgets(files: ProjectYamlFiles, selector: string): WidgetMatch[] {
+    const owners = [
+      ...this.extractPages(files).map(page => ({ kind: 'page' as const, ...page })),
+      ...this.extractComponents(files).map(component => ({ kind: 'component' as const, ...component })),
+    ];
+    const selectors = parseWidgetSelector(selector).map(({ scope, steps }) => {
+      const candidates = owners.filter(owner => owner.kind === scope?.kind);
+      const scopedFile = scope?.name !== undefined
+        ? this.findByName(candidates, scope.name, scope.kind === 'page' ? 'Page' : 'Component').filename
+        : undefined;
+      return { scope, scopedFile, steps };
+    });
+
+    const matches: WidgetMatch[] = [];
+    owners.forEach(owner => {
+      const applicable = selectors.filter(({ scope, scopedFile }) =>
+        !scope || (scope.kind === owner.kind && (scopedFile === undefined || scopedFile === owner.filename))
+      );
+      if (applicable.length === 0) {
+        return;
+      }
+
+      this.walkWidgets(owner.widgets, '/widgets', (widget, path, ancestors) => {
+        if (!applicable.some(({ steps }) => matchesSteps(widget, ancestors, steps))) {
+          return;
+        }
+        const { children, ...rest } = widget ?? {};
+        matches.push({
+          filename: owner.filename,
+          kind: owner.kind,
+          owner: owner.name,
+          path,
+          typePath: [...ancestors, widget].map(node => node?.type ?? 'Unknown').join(' > '),
+          widget: rest,
+          childCount: Array.isArray(children) ? children.length : 0,
+        });
+      });
+    });
+
+    return matches;
+  }
+
+  /**
+   * Links pages, components and custom code to the components, custom
+   * actions, functions and widgets, collections, app-state variables and
+   * pages they reference. FlutterFlow YAML has no explicit reference syntax,
+   * so only the keys listed in REFERENCE_KEYS count: a widget type naming a
+   * component, an action naming a custom action or collection, a navigation
+   * target matching a page name or route. `appState.<variable>` counts in
+   * any string, since it only appears in expressions.
+   */
+  static buildReferenceGraph(files: ProjectYamlFiles): ReferenceGraph {
+    const customCode = this.extractCustomCode(files);
+    const pages = this.extractPages(files);
+    const entries: Array<{ kind: GraphNodeKind; name: string; filename?: string; definition?: any }> = [
+      ...pages.map(page => ({ kind: 'page' as const, ...page })),
+      ...this.extractComponents(files).map(component => ({ kind: 'component' as const, ...component })),
+      ...customCode.actions.map(action => ({ kind: 'action' as const, ...action })),
+      ...customCode.functions.map(fn => ({ kind: 'function' as const, ...fn })),
+      ...customCode.widgets.map(widget => ({ kind: 'widget' as const, ...widget })),
+      ...this.extractDatabaseCollections(files).map(({ name, filename }) => ({ kind: 'collection' as const, name, filename })),
+      ...(this.extractAppState(files)?.variables ?? []).map((variable: any) => ({
+        kind: 'appState' as const,
+        name: variable?.name,
+        filename: 'app-state.yaml' in files ? 'app-state.yaml' : 'appState.yaml',
+      })),
+    ].filter(entry => typeof entry.name === 'string' && entry.name !== '');
+
+    const nodes = new Map<string, GraphNode>();
+    const byName = new Map<string, string[]>();
+    entries.forEach(({ kind, name, filename }) => {
+      const id = `${kind}:${name}`;
+      if (!nodes.has(id)) {
+        nodes.set(id, { id, kind, name, filename });
+        byName.set(name, [...(byName.get(name) ?? []), id]);
+      }
+    });
+    pages.forEach(page => {
+      if (page.route && page.name) {
+        byName.set(page.route, [...(byName.get(page.route) ?? []), `page:${page.name}`]);
+      }
+    });
+    const appStateIds = new Map(entries.filter(entry => entry.kind === 'appState').map(entry => [entry.name, `appState:${entry.name}`]));
+
+    const edges = new Map<string, GraphEdge>();
+    const addEdge = (from: string, to: string, path: string) => {
+      if (from === to) {
+        return;
+      }
+      const key = `${from}\u0000${to}`;
+      const edge = edges.get(key) ?? { from, to, paths: [] };
+      if (!edge.paths.includes(path)) {
+        edge.paths.push(path);
+      }
+      edges.set(key, edge);
+    };
+
+    entries.filter(entry => entry.definition !== undefined).forEach(entry => {
+      const from = `${entry.kind}:${entry.name}`;
+      this.visitStrings(entry.definition, '', (text, path) => {
+        const key = path.slice(path.lastIndexOf('/') + 1);
+        const kinds = Object.hasOwn(REFERENCE_KEYS, key) && (key !== 'type' || WIDGET_TYPE_PATH.test(path))
+          ? REFERENCE_KEYS[key]
+          : [];
+        (byName.get(text) ?? [])
+          .filter(to => kinds.includes(nodes.get(to)!.kind))
+          .forEach(to => addEdge(from, to, path));
+        for (const match of text.matchAll(/\b(?:appState|FFAppState\(\))\.([A-Za-z_]\w*)/g)) {
+          const to = appStateIds.get(match[1]);
+          if (to) {
+            addEdge(from, to, path);
+          }
+        }
+      });
+    });
+
+    return { nodes: [...nodes.values()], edges: [...edges.values()] };
+  }
+
+  /**
+   * What a node references and what references it. With `transitive`,
+   * `referencedBy` also lists indirect dependents, e.g. the pages using a
+   * component that uses the collection, which is what breaks on deletion.
+   */
+  static findReferences(graph: ReferenceGraph, id: string, options: { transitive?: boolean } = {}): {
+    node: GraphNode;
+    references: GraphEdge[];
+    referencedBy: GraphEdge[];
+  } {
+    const node = graph.nodes.find(candidate => candidate.id === id);
+    if (!node) {
+      throw new NotFoundError(`Not found in the project: ${id}`);
+    }
+
+    const referencedBy: GraphEdge[] = [];
+    const seen = new Set([id]);
+    let frontier = [id];
+    while (frontier.length > 0) {
+      const incoming = graph.edges.filter(edge => frontier.includes(edge.to));
+      referencedBy.push(...incoming);
+      frontier = options.transitive
+        ? incoming.map(edge => edge.from).filter(from => !seen.has(from) && seen.add(from))
+        : [];
+    }
+
+    return { node, references: graph.edges.filter(edge => edge.from === id), referencedBy };
+  }
+
+  // Calls visit for every string in a definition with its JSON Pointer
+  private static visitStrings(value: any, path: string, visit: (text: string, path: string) => void): void {
+    if (typeof value === 'string') {
+      visit(value, path);
+    } else if (Array.isArray(value)) {
+      value.forEach((item, index) => this.visitStrings(item, `${path}/${index}`, visit));
+    } else if (typeof value === 'object' && value !== null) {
+      Object.entries(value).forEach(([key, child]) => {
+        this.visitStrings(child, `${path}/${key.replace(/~/g, '~0').replace(/\//g, '~1')}`, visit);
+      });
+    }
+  }
+
+  /**
+   * Visits every widget of a tree depth-first in document order, passing the
+   * JSON Pointer to the widget and its ancestors from the top level down.
+   */
+  static walkWidgets(widgets: any[], basePath: string, visit: WidgetVisitor, ancestors: any[] = []): void {
+    (Array.isArray(widgets) ? widgets : []).forEach((widget, index) => {
+      const path = `${basePath}/${index}`;
+      visit(widget, path, ancestors);
+      this.walkWidgets(widget?.children, `${path}/children`, visit, [...ancestors, widget]);
+    });
+  }
+
+  /**
+   * Updates a component definition. `updates` is either an RFC 6902 JSON Patch
+   * array (paths relative to the definition) or an RFC 7396 merge patch.
+   */
+  static updateComponent(files: ProjectYamlFiles, componentName: string, updates: JsonPatchOperation[] | Record<string, any>): ProjectYamlFiles {
     const updatedFiles = { ...files };
+    let matched = false;
     
     Object.entries(updatedFiles).forEach(([filename, content]) => {
       if (filename.includes('components/') && 
@@ -207,19 +645,26 @@ export class YamlUtils {
            this.extractNameFromFilename(filename) === componentName)) {
         updatedFiles[filename] = {
           ...content,
-          componentDefinition: {
-            ...content.componentDefinition,
-            ...updates,
-          },
+          componentDefinition: applyPatch(content.componentDefinition || {}, updates),
         };
+        matched = true;
       }
     });
 
+    if (!matched) {
+      throw new NotFoundError(`Component not found: ${componentName}`);
+    }
+
     return updatedFiles;
   }
 
-  static updatePage(files: ProjectYamlFiles, pageName: string, updates: any): ProjectYamlFiles {
+  /**
+   * Updates a page definition. `updates` is either an RFC 6902 JSON Patch
+   * array (paths relative to the definition) or an RFC 7396 merge patch.
+   */
+  static updatePage(files: ProjectYamlFiles, pageName: string, updates: JsonPatchOperation[] | Record<string, any>): ProjectYamlFiles {
     const updatedFiles = { ...files };
+    let matched = false;
     
     Object.entries(updatedFiles).forEach(([filename, content]) => {
       if (filename.includes('pages/') && 
@@ -227,17 +672,228 @@ export class YamlUtils {
            this.extractNameFromFilename(filename) === pageName)) {
         updatedFiles[filename] = {
           ...content,
-          pageDefinition: {
-            ...content.pageDefinition,
-            ...updates,
-          },
+          pageDefinition: applyPatch(content.pageDefinition || {}, updates),
         };
+        matched = true;
       }
     });
 
+    if (!matched) {
+      throw new NotFoundError(`Page not found: ${pageName}`);
+    }
+
     return updatedFiles;
   }
 
+  /**
+   * Finds the widget a target points at. Selectors must match exactly one
+   * widget; several matches are listed so the caller can narrow them down.
+   * With `allowRoot`, a page or component without a path addresses its
+   * top-level widget list (path "").
+   */
+  static resolveWidgetTarget(
+    files: ProjectYamlFiles,
+    target: WidgetTarget,
+    options: { allowRoot?: boolean } = {}
+  ): WidgetLocation {
+    const owner = target.page ?? target.component;
+    if (target.selector !== undefined) {
+      if (owner !== undefined || target.path !== undefined) {
+        throw new InvalidArgumentError('Address a widget either by selector or by page/component and path, not both');
+      }
+      const matches = this.queryWidgets(files, target.selector);
+      if (matches.length === 0) {
+        throw new NotFoundError(`No widget matches selector: ${target.selector}`);
+      }
+      if (matches.length > 1) {
+        throw new InvalidArgumentError(
+          `Selector "${target.selector}" matches ${matches.length} widgets: `
+            + matches.slice(0, 10).map(match => `${match.owner} ${match.path} (${match.typePath})`).join(', ')
+            + '. Narrow the selector or pass page/component and path.'
+        );
+      }
+      const { filename, kind, owner: name, path } = matches[0];
+      return { filename, kind, owner: name, path };
+    }
+
+    if (owner === undefined || (target.page !== undefined && target.component !== undefined)) {
+      throw new InvalidArgumentError('A widget target needs a selector, or either a page or a component plus a path');
+    }
+    const kind = target.page !== undefined ? 'page' : 'component';
+    const entry = kind === 'page'
+      ? this.findByName(this.extractPages(files), owner, 'Page')
+      : this.findByName(this.extractComponents(files), owner, 'Component');
+    const location = { filename: entry.filename, kind, owner: entry.name, path: target.path ?? '' } as WidgetLocation;
+
+    if (location.path === '' && options.allowRoot) {
+      return location;
+    }
+    if (!WIDGET_PATH.test(location.path)) {
+      throw new InvalidArgumentError(
+        `Invalid widget path "${location.path}": expected a JSON Pointer such as /widgets/0/children/1`
+      );
+    }
+    this.widgetAt(entry.definition, location);
+    return location;
+  }
+
+  /**
+   * Inserts a widget into the children of the target (or the top-level
+   * widgets when the target has no path), at `index` or at the end.
+   */
+  static insertWidget(files: ProjectYamlFiles, parent: WidgetTarget, widget: any, index?: number): WidgetEditResult {
+    this.assertValidWidget(widget, 'widget');
+    const location = this.resolveWidgetTarget(files, parent, { allowRoot: true });
+    return this.editWidgetTree(files, location, definition => {
+      const children = this.childList(definition, location);
+      const position = this.checkIndex(index ?? children.length, children.length);
+      const inserted = structuredClone(widget);
+      children.splice(position, 0, inserted);
+      return inserted;
+    });
+  }
+
+  /**
+   * Moves a widget under another parent (or the top level) of the same page
+   * or component. `index` counts the new parent's children once the widget
+   * has left its old place, so reordering siblings works as expected.
+   */
+  static moveWidget(files: ProjectYamlFiles, target: WidgetTarget, parent: WidgetTarget, index?: number): WidgetEditResult {
+    const location = this.resolveWidgetTarget(files, target);
+    const destination = this.resolveWidgetTarget(files, parent, { allowRoot: true });
+    if (destination.filename !== location.filename) {
+      throw new InvalidArgumentError('Widgets can only be moved within the same page or component');
+    }
+    if (destination.path === location.path || destination.path.startsWith(`${location.path}/`)) {
+      throw new InvalidArgumentError(`Cannot move ${location.path} into itself or one of its descendants`);
+    }
+
+    return this.editWidgetTree(files, location, definition => {
+      const widget = this.widgetAt(definition, location);
+      const children = this.childList(definition, destination);
+      const siblings = this.childList(definition, { ...location, path: this.parentPath(location.path) });
+      siblings.splice(siblings.indexOf(widget), 1);
+      children.splice(this.checkIndex(index ?? children.length, children.length), 0, widget);
+      return widget;
+    });
+  }
+
+  /**
+   * Replaces the target with `wrapper`, which gets the target as its only
+   * child, e.g. to put a widget into Padding or a Column.
+   */
+  static wrapWidget(files: ProjectYamlFiles, target: WidgetTarget, wrapper: any): WidgetEditResult {
+    this.assertValidWidget(wrapper, 'wrapper');
+    if (wrapper.children !== undefined) {
+      throw new InvalidArgumentError('The wrapper must not have children: the wrapped widget becomes its child');
+    }
+    const location = this.resolveWidgetTarget(files, target);
+    return this.editWidgetTree(files, location, definition => {
+      const siblings = this.childList(definition, { ...location, path: this.parentPath(location.path) });
+      const position = siblings.indexOf(this.widgetAt(definition, location));
+      const wrapped = { ...structuredClone(wrapper), children: [siblings[position]] };
+      siblings[position] = wrapped;
+      return wrapped;
+    });
+  }
+
+  static replaceWidget(files: ProjectYamlFiles, target: WidgetTarget, widget: any): WidgetEditResult {
+    this.assertValidWidget(widget, 'widget');
+    const location = this.resolveWidgetTarget(files, target);
+    return this.editWidgetTree(files, location, definition => {
+      const siblings = this.childList(definition, { ...location, path: this.parentPath(location.path) });
+      const replacement = structuredClone(widget);
+      siblings[siblings.indexOf(this.widgetAt(definition, location))] = replacement;
+      return replacement;
+    });
+  }
+
+  static deleteWidget(files: ProjectYamlFiles, target: WidgetTarget): WidgetEditResult {
+    const location = this.resolveWidgetTarget(files, target);
+    return this.editWidgetTree(files, location, definition => {
+      const siblings = this.childList(definition, { ...location, path: this.parentPath(location.path) });
+      siblings.splice(siblings.indexOf(this.widgetAt(definition, location)), 1);
+      return undefined;
+    });
+  }
+
+  /**
+   * Runs an edit against a copy of one page or component definition and
+   * returns the files with just that definition replaced. The edit returns
+   * the widget it produced so its new path can be reported.
+   */
+  private static editWidgetTree(
+    files: ProjectYamlFiles,
+    location: WidgetLocation,
+    edit: (definition: any) => any
+  ): WidgetEditResult {
+    const key = location.kind === 'page' ? 'pageDefinition' : 'componentDefinition';
+    const definition = structuredClone(files[location.filename][key]);
+    const edited = edit(definition);
+
+    let path = location.path;
+    if (edited !== undefined) {
+      this.walkWidgets(definition.widgets, '/widgets', (widget, widgetPath) => {
+        if (widget === edited) {
+          path = widgetPath;
+        }
+      });
+    }
+
+    return {
+      files: { ...files, [location.filename]: { ...files[location.filename], [key]: definition } },
+      location: { ...location, path },
+    };
+  }
+
+  private static widgetAt(definition: any, location: WidgetLocation): any {
+    const widget = parseJsonPointer(location.path).reduce((node, token) => node?.[token], definition);
+    if (typeof widget !== 'object' || widget === null) {
+      throw new NotFoundError(`No widget at ${location.path} in ${location.kind} ${location.owner}`);
+    }
+    return widget;
+  }
+
+  // The list a widget at `location.path` would be a child of: a widget's children, or the top-level widgets for ""
+  private static childList(definition: any, location: WidgetLocation): any[] {
+    if (location.path === '') {
+      definition.widgets ??= [];
+      return definition.widgets;
+    }
+    const widget = this.widgetAt(definition, location);
+    widget.children ??= [];
+    return widget.children;
+  }
+
+  private static parentPath(path: string): string {
+    return path.replace(/\/(widgets|children)\/\d+$/, '');
+  }
+
+  private static checkIndex(index: number, length: number): number {
+    if (!Number.isInteger(index) || index < 0 || index > length) {
+      throw new InvalidArgumentError(`Index ${index} is out of range: the parent has ${length} children`);
+    }
+    return index;
+  }
+
+  /**
+   * Widgets need a type, and children (if any) must be widgets themselves.
+   */
+  static assertValidWidget(widget: any, path: string): void {
+    if (typeof widget !== 'object' || widget === null || Array.isArray(widget)) {
+      throw new InvalidArgumentError(`${path} must be a widget object`);
+    }
+    if (typeof widget.type !== 'string' || widget.type === '') {
+      throw new InvalidArgumentError(`${path}.type must be a non-empty string`);
+    }
+    if (widget.children !== undefined) {
+      if (!Array.isArray(widget.children)) {
+        throw new InvalidArgumentError(`${path}.children must be an array`);
+      }
+      widget.children.forEach((child: any, index: number) => this.assertValidWidget(child, `${path}.children.${index}`));
+    }
+  }
+
   static addCustomAction(files: ProjectYamlFiles, actionName: string, actionDefinition: any): ProjectYamlFiles {
     const filename = `custom_code/actions/${actionName}.yaml`;
     return {
@@ -277,6 +933,87 @@ export class YamlUtils {
     };
   }
 
+  static isInPartition(filename: string, partitions: ProjectPartition[]): boolean {
+    return partitions.some(partition => PARTITION_MATCHERS[partition](filename));
+  }
+
+  static selectPartitionFiles(fileNames: string[], partitions: ProjectPartition[]): string[] {
+    return fileNames.filter(filename => this.isInPartition(filename, partitions));
+  }
+
+  static partitionsOf(fileNames: string[]): ProjectPartition[] {
+    return (Object.keys(PARTITION_MATCHERS) as ProjectPartition[])
+      .filter(partition => fileNames.some(filename => PARTITION_MATCHERS[partition](filename)));
+  }
+
+  /**
+   * Whether a file defines collections under a top-level `collections:` key
+   * instead of living in collections/. Only the content can tell.
+   */
+  static definesCollections(content: any): boolean {
+    return typeof content?.collections === 'object' && content.collections !== null;
+  }
+
+  static filterPartitions(files: ProjectYamlFiles, partitions: ProjectPartition[]): ProjectYamlFiles {
+    const filtered: ProjectYamlFiles = {};
+    Object.entries(files).forEach(([filename, content]) => {
+      if (this.isInPartition(filename, partitions)
+        || (partitions.includes('collections') && this.definesCollections(content))) {
+        filtered[filename] = content;
+      }
+    });
+    return filtered;
+  }
+
+  /**
+   * Finds an extracted page, component or collection by name, preferring an
+   * exact match over a case-insensitive one.
+   */
+  static findByName<T extends { name?: string }>(items: T[], name: string, kind: string): T {
+    const match = items.find(item => item.name === name)
+      ?? items.find(item => item.name?.toLowerCase() === name.toLowerCase());
+    if (!match) {
+      const available = items.map(item => item.name).filter(Boolean).join(', ') || 'none';
+      throw new NotFoundError(`${kind} not found: ${name}. Available: ${available}`);
+    }
+    return match;
+  }
+
+  /**
+   * YAML text for one file: its original text when unchanged, the original
+   * text with just the changed values rewritten when `base` was decoded from
+   * FlutterFlow, and a fresh dump otherwise.
+   */
+  static serializeFile(content: any, base?: any): string {
+    const source = yamlSourceOf(content);
+    if (source !== undefined && this.isUnmodified(content)) {
+      return source;
+    }
+    // A file edited in place still has its own original text to start from
+    const origin = source ?? yamlSourceOf(base);
+    if (origin === undefined) {
+      return this.dumpYaml(content);
+    }
+    // Equal values (e.g. a copy read back from a snapshot) keep the original text
+    if (source === undefined && this.isUnmodified(base) && isDeepStrictEqual(content, base)) {
+      return origin;
+    }
+    return updateYamlSource(origin, content) ?? this.dumpYaml(content);
+  }
+
+  private static isUnmodified(content: any): boolean {
+    const hash = typeof content === 'object' && content !== null ? decodedHashes.get(content) : undefined;
+    return hash !== undefined && hash === this.hashContent(content);
+  }
+
+  static dumpYaml(content: any): string {
+    return yaml.dump(content, {
+      indent: 2,
+      lineWidth: -1,
+      noRefs: true,
+    });
+  }
+
   private static extractNameFromFilename(filename: string): string {
     const parts = filename.split('/');
     const nameWithExt = parts[parts.length - 1];
@@ -67,10 +67,12 @@ export class MockFlutterFlowServer {
     return this;
   }
 
-  mockRateLimitError() {
+  mockRateLimitError(retryAfter?: string, times = 1) {
+    const headers: Record<string, string> = retryAfter ? { 'Retry-After': retryAfter } : {};
     this.scope
-      .get('/l/listProjects')
-      .reply(429, { error: 'Too Many Requests', message: 'Rate limit exceeded' });
+      .post('/l/listProjects')
+      .times(times)
+      .reply(429, { error: 'Too Many Requests', message: 'Rate limit exceeded' }, headers);
     return this;
   }
 
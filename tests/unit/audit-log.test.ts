@@ -0,0 +1,94 @@
+import { promises as fs } from 'fs';
+import os from 'os';
+import path from 'path';
+import { AuditEntry, AuditLog, hashProjectFiles } from '../../src/audit-log';
+import { InvalidArgumentError } from '../../src/errors';
+
+function entry(overrides: Partial<AuditEntry>): AuditEntry {
+  return {
+    timestamp: '2026-10-01T12:00:00.000Z',
+    tool: 'update_page',
+    projectId: 'proj_123',
+    profile: 'default',
+    outcome: 'committed',
+    files: [{ filename: 'pages/home.yaml', status: 'modified' }],
+    hashBefore: 'a',
+    hashAfter: 'b',
+    ...overrides,
+  };
+}
+
+describe('AuditLog', () => {
+  let directory: string;
+  let auditLog: AuditLog;
+
+  beforeEach(async () => {
+    directory = await fs.mkdtemp(path.join(os.tmpdir(), 'ff-audit-test-'));
+    auditLog = new AuditLog({ directory });
+  });
+
+  afterEach(async () => {
+    await fs.rm(directory, { recursive: true, force: true });
+  });
+
+  it('should append one JSON line per entry', async () => {
+    await auditLog.append(entry({}));
+    await auditLog.append(entry({ tool: 'update_component' }));
+
+    const lines = (await fs.readFile(path.join(directory, 'audit.jsonl'), 'utf8')).trim().split('\n');
+    expect(lines).toHaveLength(2);
+    expect(JSON.parse(lines[1]).tool).toBe('update_component');
+  });
+
+  it('should keep the log readable by the owner only', async () => {
+    const nested = path.join(directory, 'audit');
+    await new AuditLog({ directory: nested }).append(entry({}));
+
+    expect((await fs.stat(nested)).mode & 0o777).toBe(0o700);
+    expect((await fs.stat(path.join(nested, 'audit.jsonl'))).mode & 0o777).toBe(0o600);
+  });
+
+  it('should return an empty list before anything was written', async () => {
+    expect(await auditLog.query()).toEqual([]);
+  });
+
+  it('should filter by project and date range, newest first', async () => {
+    await auditLog.append(entry({ timestamp: '2026-09-30T23:00:00.000Z' }));
+    await auditLog.append(entry({ timestamp: '2026-10-01T08:00:00.000Z', projectId: 'proj_456' }));
+    await auditLog.append(entry({ timestamp: '2026-10-01T09:00:00.000Z' }));
+    await auditLog.append(entry({ timestamp: '2026-10-02T09:00:00.000Z' }));
+
+    const results = await auditLog.query({ projectId: 'proj_123', since: '2026-10-01', until: '2026-10-01' });
+    expect(results.map(e => e.timestamp)).toEqual(['2026-10-01T09:00:00.000Z']);
+
+    const latest = await auditLog.query({ limit: 2 });
+    expect(latest.map(e => e.timestamp)).toEqual(['2026-10-02T09:00:00.000Z', '2026-10-01T09:00:00.000Z']);
+  });
+
+  it('should skip a torn line and reject invalid dates', async () => {
+    await auditLog.append(entry({}));
+    await fs.appendFile(path.join(directory, 'audit.jsonl'), '{"timestamp":', 'utf8');
+
+    expect(await auditLog.query()).toHaveLength(1);
+    await expect(auditLog.query({ since: 'yesterday' })).rejects.toThrow(InvalidArgumentError);
+  });
+
+  it('should keep namespaces in separate files', async () => {
+    const other = new AuditLog({ directory, namespace: 'abc' });
+    await other.append(entry({}));
+
+    expect(other.filePath).toBe(path.join(directory, 'abc', 'audit.jsonl'));
+    expect(await auditLog.query()).toEqual([]);
+  });
+
+  describe('hashProjectFiles', () => {
+    it('should only depend on the listed files', () => {
+      const before = { 'a.yaml': { x: 1 }, 'b.yaml': { y: 1 } };
+      const after = { 'a.yaml': { x: 1 }, 'b.yaml': { y: 2 } };
+
+      expect(hashProjectFiles(before, ['a.yaml'])).toBe(hashProjectFiles(after, ['a.yaml']));
+      expect(hashProjectFiles(before, ['b.yaml'])).not.toBe(hashProjectFiles(after, ['b.yaml']));
+      expect(hashProjectFiles({}, ['a.yaml'])).toMatch(/^[0-9a-f]{64}$/);
+    });
+  });
+});
@@ -0,0 +1,288 @@
+import { Server } from '@modelcontextprotocol/sdk/server/index.js';
+import { Client } from '@modelcontextprotocol/sdk/client/index.js';
+import { InMemoryTransport } from '@modelcontextprotocol/sdk/inMemory.js';
+import { CallToolRequestSchema, ElicitRequestSchema } from '@modelcontextprotocol/sdk/types.js';
+import { ConfirmationStore, summarizeChanges } from '../../src/confirmations';
+import { CredentialsRegistry } from '../../src/credentials';
+import { CancelledError, InvalidArgumentError, NetworkError, ValidationError } from '../../src/errors';
+import { ServerContext } from '../../src/server-context';
+import { callTool } from '../../src/tools/registry';
+import { WritePolicy } from '../../src/write-policy';
+import { YamlUtils } from '../../src/yaml-utils';
+
+function parseText(result: any) {
+  return JSON.parse(result.content[0].text);
+}
+
+describe('confirmations', () => {
+  const changes = YamlUtils.diffProjectFiles(
+    { 'pages/home.yaml': { title: 'Home' } },
+    { 'pages/home.yaml': { title: 'Start' }, 'pages/new.yaml': { title: 'New' } }
+  );
+
+  describe('summarizeChanges', () => {
+    it('should count files and changed lines without the diff headers', () => {
+      expect(summarizeChanges(changes)).toEqual({ files: 2, linesAdded: 2, linesRemoved: 1 });
+    });
+  });
+
+  describe('ConfirmationStore', () => {
+    const commit = { tool: 'update_page', projectId: 'proj_123', changes };
+
+    it('should accept a token once for the same change', () => {
+      const store = new ConfirmationStore();
+      const { token } = store.issue(commit);
+
+      expect(() => store.consume(token, commit)).not.toThrow();
+      expect(() => store.consume(token, commit)).toThrow('Unknown or expired confirmation token');
+    });
+
+    it('should reject a token for a different change', () => {
+      const store = new ConfirmationStore();
+      const { token } = store.issue(commit);
+
+      expect(() => store.consume(token, { ...commit, projectId: 'proj_456' })).toThrow(InvalidArgumentError);
+      expect(() => store.consume(token, { ...commit, changes: [] })).toThrow('Unknown or expired');
+    });
+
+    it('should expire tokens', () => {
+      const store = new ConfirmationStore({ ttlMs: 0 });
+      const { token } = store.issue(commit);
+
+      expect(() => store.consume(token, commit)).toThrow('Unknown or expired confirmation token');
+    });
+  });
+
+  describe('commit flow', () => {
+    let serverContext: ServerContext;
+    const profileContext = {
+      profile: 'default',
+      flutterflowAPI: {
+        updateProjectYAML: jest.fn(async () => ({ success: true })),
+        validateProjectYAML: jest.fn(async () => ({ valid: true, errors: [] as string[], warnings: [] as string[] })),
+      },
+      snapshotCache: {
+        getProjectFiles: jest.fn(async () => ({ 'pages/home.yaml': { title: 'Home' } })),
+        invalidate: jest.fn(async () => undefined),
+      },
+      snapshotStore: {
+        save: jest.fn(async () => ({ id: 'snap_1' })),
+        remove: jest.fn(async () => undefined),
+        get: jest.fn(async (): Promise<any> => undefined),
+      },
+      auditLog: {
+        append: jest.fn(async () => undefined),
+      },
+    };
+    const args = { projectId: 'proj_123', functionName: 'double', functionDefinition: { code: 'x * 2' } };
+
+    beforeEach(() => {
+      jest.clearAllMocks();
+      serverContext = {
+        credentials: new CredentialsRegistry([{ name: 'default', apiToken: 'token' }]),
+        writePolicy: new WritePolicy(),
+        confirmations: new ConfirmationStore(),
+        forProfile: () => profileContext as any,
+      };
+    });
+
+    it('should return a confirmation token before committing when the client cannot elicit', async () => {
+      const server = new Server({ name: 'test', version: '0.0.0' }, { capabilities: { tools: {} } });
+
+      const first = parseText(await callTool('add_custom_function', args, { server, serverContext }));
+      expect(first).toMatchObject({
+        confirmationRequired: true,
+        projectId: 'proj_123',
+        summary: { files: 1 },
+        changes: [{ filename: 'custom_code/functions/double.yaml', status: 'added' }],
+      });
+      expect(profileContext.flutterflowAPI.updateProjectYAML).not.toHaveBeenCalled();
+
+      const second = parseText(await callTool(
+        'add_custom_function',
+        { ...args, confirmationToken: first.confirmationToken },
+        { server, serverContext }
+      ));
+      expect(second).toEqual({
+        success: true,
+        snapshotId: 'snap_1',
+        uploaded: { files: ['custom_code/functions/double.yaml'], partitions: ['custom_code'] },
+      });
+      expect(profileContext.flutterflowAPI.updateProjectYAML).toHaveBeenCalledTimes(1);
+    });
+
+    it('should record commits and failed attempts in the audit log', async () => {
+      const server = new Server({ name: 'test', version: '0.0.0' }, { capabilities: { tools: {} } });
+      serverContext.writePolicy = new WritePolicy({ requireConfirmation: false });
+
+      await callTool('add_custom_function', { ...args, commitMessage: 'Add double' }, { server, serverContext });
+      profileContext.flutterflowAPI.updateProjectYAML.mockRejectedValueOnce(new ValidationError('boom', { status: 422 }));
+      const failed = await callTool('add_custom_function', args, { server, serverContext });
+
+      expect(failed.isError).toBe(true);
+      const entries = profileContext.auditLog.append.mock.calls.map((call: any[]) => call[0]);
+      expect(entries[0]).toMatchObject({
+        tool: 'add_custom_function',
+        projectId: 'proj_123',
+        profile: 'default',
+        commitMessage: 'Add double',
+        outcome: 'committed',
+        files: [{ filename: 'custom_code/functions/double.yaml', status: 'added' }],
+        snapshotId: 'snap_1',
+        result: { success: true },
+      });
+      expect(entries[0].hashBefore).not.toBe(entries[0].hashAfter);
+      expect(entries[1]).toMatchObject({ outcome: 'failed', error: { message: 'boom' } });
+    });
+
+    it('should audit and report a commit even when a later step fails', async () => {
+      const server = new Server({ name: 'test', version: '0.0.0' }, { capabilities: { tools: {} } });
+      serverContext.writePolicy = new WritePolicy({ requireConfirmation: false });
+      profileContext.snapshotCache.invalidate.mockRejectedValueOnce(new Error('EACCES'));
+
+      const result = parseText(await callTool('add_custom_function', args, { server, serverContext }));
+
+      expect(result).toMatchObject({ success: true, snapshotId: 'snap_1' });
+      expect(profileContext.auditLog.append).toHaveBeenCalledWith(expect.objectContaining({ outcome: 'committed' }));
+    });
+
+    it('should save the rollback snapshot before uploading and drop it when the upload fails', async () => {
+      const server = new Server({ name: 'test', version: '0.0.0' }, { capabilities: { tools: {} } });
+      serverContext.writePolicy = new WritePolicy({ requireConfirmation: false });
+
+      profileContext.snapshotStore.save.mockRejectedValueOnce(new Error('disk full'));
+      const unsaved = await callTool('add_custom_function', args, { server, serverContext });
+      expect(unsaved.isError).toBe(true);
+      expect(profileContext.flutterflowAPI.updateProjectYAML).not.toHaveBeenCalled();
+
+      profileContext.flutterflowAPI.updateProjectYAML.mockRejectedValueOnce(new ValidationError('boom', { status: 422 }));
+      await callTool('add_custom_function', args, { server, serverContext });
+      expect(profileContext.snapshotStore.save.mock.invocationCallOrder[1])
+        .toBeLessThan(profileContext.flutterflowAPI.updateProjectYAML.mock.invocationCallOrder[0]);
+      expect(profileContext.snapshotStore.remove).toHaveBeenCalledWith('proj_123', 'snap_1');
+    });
+
+    it('should keep the snapshot when an upload is cancelled or loses its connection', async () => {
+      const server = new Server({ name: 'test', version: '0.0.0' }, { capabilities: { tools: {} } });
+      serverContext.writePolicy = new WritePolicy({ requireConfirmation: false });
+
+      profileContext.flutterflowAPI.updateProjectYAML
+        .mockRejectedValueOnce(new CancelledError('Operation cancelled'))
+        .mockRejectedValueOnce(new NetworkError('socket hang up'));
+      const cancelled = await callTool('add_custom_function', args, { server, serverContext });
+      const dropped = await callTool('add_custom_function', args, { server, serverContext });
+
+      expect(cancelled.isError).toBe(true);
+      expect(dropped.isError).toBe(true);
+      expect(profileContext.snapshotStore.remove).not.toHaveBeenCalled();
+      expect(profileContext.snapshotCache.invalidate).toHaveBeenCalledTimes(2);
+      const entries = profileContext.auditLog.append.mock.calls.map((call: any[]) => call[0]);
+      expect(entries).toMatchObject([
+        { outcome: 'unknown', snapshotId: 'snap_1', error: { code: 'CANCELLED' } },
+        { outcome: 'unknown', snapshotId: 'snap_1', error: { code: 'NETWORK_ERROR', message: 'socket hang up' } },
+      ]);
+    });
+
+    it('should list the files a rollback cannot delete instead of failing', async () => {
+      const server = new Server({ name: 'test', version: '0.0.0' }, { capabilities: { tools: {} } });
+      serverContext.writePolicy = new WritePolicy({ requireConfirmation: false });
+      const snapshot = { id: 'snap_0', createdAt: '2024-01-01T00:00:00.000Z', tool: 'add_custom_function', files: { 'pages/home.yaml': { title: 'Home' } } };
+      const current = { 'pages/home.yaml': { title: 'Home' }, 'custom_code/functions/double.yaml': { code: 'x * 2' } };
+      profileContext.snapshotStore.get.mockResolvedValue(snapshot);
+      profileContext.snapshotCache.getProjectFiles.mockResolvedValueOnce(current).mockResolvedValueOnce(current);
+      const rollback = { projectId: 'proj_123', snapshotId: 'snap_0' };
+
+      const preview = parseText(await callTool('rollback_to_snapshot', rollback, { server, serverContext }));
+      expect(preview).toMatchObject({ dryRun: true, fullRestore: false, notDeleted: ['custom_code/functions/double.yaml'], changes: [] });
+      expect(preview.warning).toContain('cannot delete 1 file(s)');
+
+      const result = await callTool('rollback_to_snapshot', { ...rollback, confirm: true }, { server, serverContext });
+      expect(result.isError).toBeFalsy();
+      expect(parseText(result)).toMatchObject({ fullRestore: false, notDeleted: ['custom_code/functions/double.yaml'], uploaded: { files: [] } });
+      expect(profileContext.flutterflowAPI.updateProjectYAML).not.toHaveBeenCalled();
+    });
+
+    it('should commit immediately when confirmation is disabled', async () => {
+      const server = new Server({ name: 'test', version: '0.0.0' }, { capabilities: { tools: {} } });
+      serverContext.writePolicy = new WritePolicy({ requireConfirmation: false });
+
+      const result = parseText(await callTool('add_custom_function', args, { server, serverContext }));
+
+      expect(result).toEqual({
+        success: true,
+        snapshotId: 'snap_1',
+        uploaded: { files: ['custom_code/functions/double.yaml'], partitions: ['custom_code'] },
+      });
+      // Only the added file is sent, not the unchanged home page
+      const [, yamlContent] = profileContext.flutterflowAPI.updateProjectYAML.mock.calls[0] as unknown as [string, string];
+      expect(Object.keys(YamlUtils.decodeProjectYaml(yamlContent))).toEqual(['custom_code/functions/double.yaml']);
+    });
+
+    it('should validate widget edits and refuse the ones FlutterFlow rejects', async () => {
+      const server = new Server({ name: 'test', version: '0.0.0' }, { capabilities: { tools: {} } });
+      serverContext.writePolicy = new WritePolicy({ requireConfirmation: false });
+      const page = { 'pages/home.yaml': { pageDefinition: { name: 'Home', widgets: [{ type: 'Column' }] } } };
+      profileContext.snapshotCache.getProjectFiles.mockResolvedValueOnce(page as any).mockResolvedValueOnce(page as any);
+      profileContext.flutterflowAPI.validateProjectYAML
+        .mockResolvedValueOnce({ valid: true, errors: [], warnings: [] })
+        .mockResolvedValueOnce({ valid: false, errors: ['Column cannot be wrapped here'], warnings: [] });
+
+      const inserted = parseText(await callTool(
+        'insert_widget',
+        { projectId: 'proj_123', parent: { page: 'Home', path: '/widgets/0' }, widget: { type: 'Text' } },
+        { server, serverContext }
+      ));
+      expect(inserted).toMatchObject({ success: true, widget: { owner: 'Home', path: '/widgets/0/children/0' } });
+
+      const rejected = await callTool(
+        'wrap_widget',
+        { projectId: 'proj_123', page: 'Home', path: '/widgets/0', wrapper: { type: 'Padding' } },
+        { server, serverContext }
+      );
+      expect(parseText(rejected).error).toMatchObject({
+        code: 'VALIDATION_FAILED',
+        message: 'FlutterFlow rejected the change: Column cannot be wrapped here',
+      });
+      expect(profileContext.flutterflowAPI.updateProjectYAML).toHaveBeenCalledTimes(1);
+    });
+
+    async function connectElicitingClient(answer: { action: 'accept' | 'decline' | 'cancel'; content?: any }) {
+      const server = new Server({ name: 'test', version: '0.0.0' }, { capabilities: { tools: {} } });
+      server.setRequestHandler(CallToolRequestSchema, async (request) =>
+        callTool(request.params.name, request.params.arguments, { server, serverContext })
+      );
+      const client = new Client({ name: 'test-client', version: '0.0.0' }, { capabilities: { elicitation: {} } });
+      const prompts: string[] = [];
+      client.setRequestHandler(ElicitRequestSchema, async (request) => {
+        prompts.push(request.params.message);
+        return answer;
+      });
+      const [clientTransport, serverTransport] = InMemoryTransport.createLinkedPair();
+      await Promise.all([server.connect(serverTransport), client.connect(clientTransport)]);
+      return { client, prompts };
+    }
+
+    it('should ask the user through elicitation and commit when they accept', async () => {
+      const { client, prompts } = await connectElicitingClient({ action: 'accept', content: { confirm: true } });
+
+      const result = await client.callTool({ name: 'add_custom_function', arguments: args });
+
+      expect(result.isError).toBeUndefined();
+      expect(prompts[0]).toContain('add_custom_function wants to commit to FlutterFlow project proj_123');
+      expect(prompts[0]).toContain('added: custom_code/functions/double.yaml');
+      expect(profileContext.flutterflowAPI.updateProjectYAML).toHaveBeenCalledTimes(1);
+      await client.close();
+    });
+
+    it('should abort the commit when the user declines', async () => {
+      const { client } = await connectElicitingClient({ action: 'decline' });
+
+      const result = await client.callTool({ name: 'add_custom_function', arguments: args });
+
+      expect(result.isError).toBe(true);
+      expect(parseText(result).error.code).toBe('CONFIRMATION_DECLINED');
+      expect(profileContext.flutterflowAPI.updateProjectYAML).not.toHaveBeenCalled();
+      await client.close();
+    });
+  });
+});
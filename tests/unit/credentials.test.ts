@@ -0,0 +1,95 @@
+import { promises as fs } from 'fs';
+import os from 'os';
+import path from 'path';
+import { CredentialsRegistry } from '../../src/credentials';
+import { InvalidArgumentError } from '../../src/errors';
+import { createServerContext } from '../../src/server-context';
+
+describe('CredentialsRegistry', () => {
+  let directory: string;
+  let profilesFile: string;
+
+  beforeEach(async () => {
+    directory = await fs.mkdtemp(path.join(os.tmpdir(), 'ff-credentials-test-'));
+    profilesFile = path.join(directory, 'profiles.json');
+  });
+
+  afterEach(async () => {
+    await fs.rm(directory, { recursive: true, force: true });
+  });
+
+  it('should expose FLUTTERFLOW_API_TOKEN as the default profile', () => {
+    const registry = CredentialsRegistry.load(profilesFile, { FLUTTERFLOW_API_TOKEN: 'env-token' });
+
+    expect(registry.listProfiles()).toEqual(['default']);
+    expect(registry.defaultProfile).toBe('default');
+    expect(registry.getProfile()).toEqual({ name: 'default', apiToken: 'env-token', fromEnvironment: true });
+  });
+
+  it('should load named profiles with inline tokens or token environment variables', async () => {
+    await fs.writeFile(profilesFile, JSON.stringify({
+      defaultProfile: 'personal',
+      profiles: {
+        personal: { apiToken: 'personal-token' },
+        'client-a': { apiTokenEnv: 'CLIENT_A_TOKEN', baseURL: 'https://api-eu.flutterflow.io/v2' },
+      },
+    }));
+
+    const registry = CredentialsRegistry.load(profilesFile, {
+      FLUTTERFLOW_API_TOKEN: 'env-token',
+      CLIENT_A_TOKEN: 'client-token',
+    });
+
+    expect(registry.listProfiles()).toEqual(['default', 'personal', 'client-a']);
+    expect(registry.defaultProfile).toBe('personal');
+    expect(registry.getProfile('client-a')).toEqual({
+      name: 'client-a',
+      apiToken: 'client-token',
+      baseURL: 'https://api-eu.flutterflow.io/v2',
+    });
+  });
+
+  it('should let FLUTTERFLOW_PROFILE choose the default profile', async () => {
+    await fs.writeFile(profilesFile, JSON.stringify({ profiles: { agency: { apiToken: 'agency-token' } } }));
+
+    const registry = CredentialsRegistry.load(profilesFile, {
+      FLUTTERFLOW_API_TOKEN: 'env-token',
+      FLUTTERFLOW_PROFILE: 'agency',
+    });
+
+    expect(registry.getProfile().name).toBe('agency');
+  });
+
+  it('should reject profiles without a token', async () => {
+    await fs.writeFile(profilesFile, JSON.stringify({ profiles: { broken: { apiTokenEnv: 'MISSING_TOKEN' } } }));
+
+    expect(() => CredentialsRegistry.load(profilesFile, {})).toThrow('Profile "broken" has no API token (MISSING_TOKEN is not set)');
+  });
+
+  it('should list available profiles when an unknown one is requested', () => {
+    const registry = CredentialsRegistry.load(profilesFile, { FLUTTERFLOW_API_TOKEN: 'env-token' });
+
+    expect(() => registry.getProfile('client-b')).toThrow(InvalidArgumentError);
+    expect(() => registry.getProfile('client-b')).toThrow('Available profiles: default');
+  });
+
+  it('should explain how to configure credentials when there are none', () => {
+    const registry = CredentialsRegistry.load(profilesFile, {});
+
+    expect(() => registry.getProfile()).toThrow('No FlutterFlow credentials configured');
+  });
+});
+
+describe('createServerContext', () => {
+  it('should create one API client per profile and reuse it', () => {
+    const context = createServerContext(new CredentialsRegistry([
+      { name: 'personal', apiToken: 'personal-token' },
+      { name: 'client-a', apiToken: 'client-token' },
+    ]));
+
+    const personal = context.forProfile();
+    expect(personal.profile).toBe('personal');
+    expect(context.forProfile('personal')).toBe(personal);
+    expect(context.forProfile('client-a').flutterflowAPI).not.toBe(personal.flutterflowAPI);
+  });
+});
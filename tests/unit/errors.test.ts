@@ -0,0 +1,102 @@
+import { AxiosError, AxiosHeaders } from 'axios';
+import { z } from 'zod';
+import {
+  AuthenticationError,
+  FlutterFlowError,
+  NetworkError,
+  NotFoundError,
+  RateLimitError,
+  UnexpectedResponseError,
+  ValidationError,
+  toFlutterFlowError,
+} from '../../src/errors';
+
+function httpError(status: number, data: any = {}, headers: Record<string, string> = {}): AxiosError {
+  const config = { headers: new AxiosHeaders() };
+  return new AxiosError(`Request failed with status code ${status}`, 'ERR_BAD_RESPONSE', config, null, {
+    status,
+    statusText: 'Status Text',
+    headers,
+    config,
+    data,
+  });
+}
+
+describe('errors', () => {
+  describe('toFlutterFlowError', () => {
+    it('should map HTTP statuses to typed errors', () => {
+      expect(toFlutterFlowError(httpError(401), 'list projects', '/l/listProjects')).toBeInstanceOf(AuthenticationError);
+      expect(toFlutterFlowError(httpError(403), 'list projects', '/l/listProjects')).toBeInstanceOf(AuthenticationError);
+      expect(toFlutterFlowError(httpError(404), 'get project files', '/listPartitionedFileNames')).toBeInstanceOf(NotFoundError);
+      expect(toFlutterFlowError(httpError(429), 'list projects', '/l/listProjects')).toBeInstanceOf(RateLimitError);
+      expect(toFlutterFlowError(httpError(400), 'update project YAML', '/updateProjectByYaml')).toBeInstanceOf(ValidationError);
+    });
+
+    it('should carry status, endpoint and request id', () => {
+      const error = toFlutterFlowError(
+        httpError(404, { message: 'Project proj_1 not found' }, { 'x-request-id': 'req-42' }),
+        'get project files',
+        '/listPartitionedFileNames'
+      );
+
+      expect(error.message).toBe('Failed to get project files: Project proj_1 not found');
+      expect(error.status).toBe(404);
+      expect(error.endpoint).toBe('/listPartitionedFileNames');
+      expect(error.requestId).toBe('req-42');
+    });
+
+    it('should parse Retry-After on rate limit errors', () => {
+      const error = toFlutterFlowError(httpError(429, {}, { 'retry-after': '3' }), 'list projects', '/l/listProjects');
+
+      expect(error).toBeInstanceOf(RateLimitError);
+      expect((error as RateLimitError).retryAfterMs).toBe(3000);
+      expect(error.retryable).toBe(true);
+    });
+
+    it('should map missing responses to network errors', () => {
+      const config = { headers: new AxiosHeaders() };
+      const error = toFlutterFlowError(new AxiosError('socket hang up', 'ECONNRESET', config), 'list projects', '/l/listProjects');
+
+      expect(error).toBeInstanceOf(NetworkError);
+      expect(error.retryable).toBe(true);
+    });
+
+    it('should map parse failures to unexpected response errors', () => {
+      const zodError = z.object({ name: z.string() }).safeParse({}).error;
+
+      expect(toFlutterFlowError(zodError, 'list projects', '/l/listProjects')).toBeInstanceOf(UnexpectedResponseError);
+      expect(toFlutterFlowError(new SyntaxError('Unexpected token'), 'list projects', '/l/listProjects')).toBeInstanceOf(UnexpectedResponseError);
+    });
+
+    it('should pass typed errors through unchanged', () => {
+      const original = new NotFoundError('Project not found: Foo');
+      expect(toFlutterFlowError(original, 'find project by name', '/l/listProjects')).toBe(original);
+    });
+
+    it('should fall back to a generic API error for server failures', () => {
+      const error = toFlutterFlowError(httpError(500), 'list projects', '/l/listProjects');
+
+      expect(error.constructor).toBe(FlutterFlowError);
+      expect(error.code).toBe('API_ERROR');
+      expect(error.message).toBe('Failed to list projects: 500: Status Text');
+    });
+  });
+
+  describe('toJSON', () => {
+    it('should produce a machine-readable payload', () => {
+      const error = new AuthenticationError('Failed to list projects: Invalid API token', {
+        status: 401,
+        endpoint: '/l/listProjects',
+      });
+
+      expect(JSON.parse(JSON.stringify(error))).toEqual({
+        code: 'AUTHENTICATION_FAILED',
+        type: 'AuthenticationError',
+        message: 'Failed to list projects: Invalid API token',
+        status: 401,
+        endpoint: '/l/listProjects',
+        retryable: false,
+      });
+    });
+  });
+});
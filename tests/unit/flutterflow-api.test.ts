@@ -1,6 +1,8 @@
+import nock from 'nock';
 import { FlutterFlowAPI } from '../../src/flutterflow-api';
 import { MockFlutterFlowServer } from '../mocks/mock-server';
 import * as responses from '../mocks/flutterflow-responses';
+import { NotFoundError, RateLimitError, UnexpectedResponseError } from '../../src/errors';
 
 describe('FlutterFlowAPI', () => {
   let api: FlutterFlowAPI;
@@ -22,6 +24,20 @@ describe('FlutterFlowAPI', () => {
       const customApi = new FlutterFlowAPI();
       expect(customApi).toBeDefined();
     });
+
+    it('should prefer an explicit token and base URL over the environment', async () => {
+      delete process.env.FLUTTERFLOW_API_TOKEN;
+      const scope = nock('https://api-eu.flutterflow.io/v2', {
+        reqheaders: { authorization: 'Bearer profile-token' },
+      })
+        .post('/l/listProjects')
+        .reply(200, { success: true, value: JSON.stringify({ entries: [] }) });
+
+      const profileApi = new FlutterFlowAPI({ apiToken: 'profile-token', baseURL: 'https://api-eu.flutterflow.io/v2' });
+
+      await expect(profileApi.listProjects()).resolves.toEqual([]);
+      expect(scope.isDone()).toBe(true);
+    });
   });
 
   describe('listProjects', () => {
@@ -206,6 +222,72 @@ describe('FlutterFlowAPI', () => {
     });
   });
 
+  describe('retry policy', () => {
+    const rawProjects = {
+      entries: [{ id: 'proj_123', project: { name: 'TestApp', description: 'Test Flutter application' } }],
+    };
+
+    it('should retry rate-limited requests and honor Retry-After', async () => {
+      const retryingApi = new FlutterFlowAPI({ retry: { baseDelayMs: 1 } });
+      mockServer.mockRateLimitError('0', 2);
+      mockServer.scope.post('/l/listProjects').reply(200, rawProjects);
+
+      const projects = await retryingApi.listProjects();
+
+      expect(projects[0].projectId).toBe('proj_123');
+      expect(mockServer.isDone()).toBe(true);
+    });
+
+    it('should not retry updates unless opted in', async () => {
+      const projectId = 'proj_123';
+      const yamlContent = responses.mockYamlContent;
+      const retryingApi = new FlutterFlowAPI({ retry: { baseDelayMs: 1 } });
+      mockServer.scope.post('/updateProjectByYaml').reply(503, { message: 'Service Unavailable' });
+      mockServer.scope.post('/updateProjectByYaml').reply(200, responses.mockUpdateResponse);
+
+      await expect(retryingApi.updateProjectYAML(projectId, yamlContent)).rejects.toThrow('Service Unavailable');
+
+      const optedInApi = new FlutterFlowAPI({ retry: { baseDelayMs: 1, retryNonIdempotent: true } });
+      const result = await optedInApi.updateProjectYAML(projectId, yamlContent);
+
+      expect(result.success).toBe(true);
+    });
+  });
+
+  describe('typed errors', () => {
+    it('should throw NotFoundError for missing projects', async () => {
+      mockServer.scope
+        .get('/listPartitionedFileNames')
+        .query({ projectId: 'missing' })
+        .reply(404, { message: 'Project missing not found' });
+
+      const error = await api.getProjectFiles('missing').catch(e => e);
+
+      expect(error).toBeInstanceOf(NotFoundError);
+      expect(error.status).toBe(404);
+      expect(error.endpoint).toBe('/listPartitionedFileNames');
+    });
+
+    it('should throw RateLimitError once retries are exhausted', async () => {
+      const noRetryApi = new FlutterFlowAPI({ retry: { maxRetries: 0 } });
+      mockServer.mockRateLimitError('5');
+
+      const error = await noRetryApi.listProjects().catch(e => e);
+
+      expect(error).toBeInstanceOf(RateLimitError);
+      expect(error.retryAfterMs).toBe(5000);
+    });
+
+    it('should throw UnexpectedResponseError for malformed payloads', async () => {
+      mockServer.scope
+        .get('/projectYamls')
+        .query({ projectId: 'proj_123' })
+        .reply(200, { success: true, value: {} });
+
+      await expect(api.downloadProjectYAML('proj_123')).rejects.toBeInstanceOf(UnexpectedResponseError);
+    });
+  });
+
   describe('error handling', () => {
     it('should handle network timeouts', async () => {
       mockServer.scope.get('/l/listProjects').delay(31000).reply(200, responses.mockProjects);
@@ -0,0 +1,40 @@
+import { toDot, toMermaid } from '../../src/graph-format';
+import { ReferenceGraph } from '../../src/yaml-utils';
+
+const graph: ReferenceGraph = {
+  nodes: [
+    { id: 'page:HomePage', kind: 'page', name: 'HomePage', filename: 'pages/home_page.yaml' },
+    { id: 'component:Say "Hi"', kind: 'component', name: 'Say "Hi"' },
+    { id: 'collection:users', kind: 'collection', name: 'users' },
+  ],
+  edges: [
+    { from: 'page:HomePage', to: 'component:Say "Hi"', paths: ['/widgets/0/type'] },
+    { from: 'component:Say "Hi"', to: 'collection:users', paths: ['/query/collection'] },
+  ],
+};
+
+describe('graph-format', () => {
+  it('should render a Mermaid flowchart with generated ids and shapes per kind', () => {
+    expect(toMermaid(graph)).toBe([
+      'flowchart LR',
+      '  n0["Page: HomePage"]',
+      '  n1("Component: Say #quot;Hi#quot;")',
+      '  n2[("Collection: users")]',
+      '  n0 --> n1',
+      '  n1 --> n2',
+    ].join('\n'));
+  });
+
+  it('should render a DOT digraph with quoted ids', () => {
+    expect(toDot(graph)).toBe([
+      'digraph dependencies {',
+      '  rankdir=LR;',
+      '  "page:HomePage" [label="Page: HomePage", shape=box];',
+      '  "component:Say \\"Hi\\"" [label="Component: Say \\"Hi\\"", shape=ellipse];',
+      '  "collection:users" [label="Collection: users", shape=cylinder];',
+      '  "page:HomePage" -> "component:Say \\"Hi\\"";',
+      '  "component:Say \\"Hi\\"" -> "collection:users";',
+      '}',
+    ].join('\n'));
+  });
+});
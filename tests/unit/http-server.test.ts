@@ -0,0 +1,120 @@
+import http from 'http';
+import { Server } from '@modelcontextprotocol/sdk/server/index.js';
+import { McpHttpServer, startHttpServer } from '../../src/http-server';
+
+const initializeRequest = {
+  jsonrpc: '2.0',
+  id: 1,
+  method: 'initialize',
+  params: {
+    protocolVersion: '2025-03-26',
+    capabilities: {},
+    clientInfo: { name: 'test-client', version: '1.0.0' },
+  },
+};
+
+// fetch always derives Host from the URL, so spoofed headers need http.request
+function rawRequest(url: string, method: string, headers: Record<string, string>): Promise<number> {
+  return new Promise((resolve, reject) => {
+    const req = http.request(url, { method, headers }, (res) => {
+      res.resume();
+      resolve(res.statusCode ?? 0);
+    });
+    req.on('error', reject);
+    req.end(method === 'POST' ? JSON.stringify(initializeRequest) : undefined);
+  });
+}
+
+const mcpHeaders = {
+  'Content-Type': 'application/json',
+  Accept: 'application/json, text/event-stream',
+};
+
+describe('startHttpServer', () => {
+  let httpServer: McpHttpServer;
+  let sessionTokens: Array<string | undefined>;
+
+  beforeEach(async () => {
+    sessionTokens = [];
+    httpServer = await startHttpServer({
+      host: '127.0.0.1',
+      port: 0,
+      authToken: 'secret',
+      createSession: (flutterflowToken) => {
+        sessionTokens.push(flutterflowToken);
+        return new Server({ name: 'test', version: '0.0.0' }, { capabilities: { tools: {} } });
+      },
+    });
+  });
+
+  afterEach(async () => {
+    await httpServer.close();
+  });
+
+  it('should reject requests without the bearer token', async () => {
+    const response = await fetch(`${httpServer.url}/mcp`, {
+      method: 'POST',
+      headers: mcpHeaders,
+      body: JSON.stringify(initializeRequest),
+    });
+
+    expect(response.status).toBe(401);
+    expect(response.headers.get('www-authenticate')).toBe('Bearer');
+    expect(sessionTokens).toEqual([]);
+  });
+
+  it('should start a session with the per-session FlutterFlow token', async () => {
+    const response = await fetch(`${httpServer.url}/mcp`, {
+      method: 'POST',
+      headers: { ...mcpHeaders, Authorization: 'Bearer secret', 'X-FlutterFlow-Token': 'ff-token' },
+      body: JSON.stringify(initializeRequest),
+    });
+    await response.text();
+
+    expect(response.status).toBe(200);
+    expect(response.headers.get('mcp-session-id')).toBeTruthy();
+    expect(sessionTokens).toEqual(['ff-token']);
+  });
+
+  it('should reject unknown sessions and non-initialize requests without a session', async () => {
+    const headers = { ...mcpHeaders, Authorization: 'Bearer secret' };
+    const listTools = JSON.stringify({ jsonrpc: '2.0', id: 2, method: 'tools/list' });
+
+    const unknown = await fetch(`${httpServer.url}/mcp`, {
+      method: 'POST',
+      headers: { ...headers, 'Mcp-Session-Id': 'missing' },
+      body: listTools,
+    });
+    const noSession = await fetch(`${httpServer.url}/mcp`, { method: 'POST', headers, body: listTools });
+
+    expect(unknown.status).toBe(404);
+    expect(noSession.status).toBe(400);
+    expect((await noSession.json()).error.message).toContain('Mcp-Session-Id');
+  });
+
+  it('should return 404 for unknown paths', async () => {
+    const response = await fetch(`${httpServer.url}/other`, { headers: { Authorization: 'Bearer secret' } });
+
+    expect(response.status).toBe(404);
+  });
+
+  it('should refuse requests for other host names or from foreign origins', async () => {
+    const port = new URL(httpServer.url).port;
+    const headers = { ...mcpHeaders, Authorization: 'Bearer secret' };
+
+    expect(await rawRequest(`${httpServer.url}/mcp`, 'POST', { ...headers, Host: `evil.example:${port}` })).toBe(403);
+    expect(await rawRequest(`${httpServer.url}/sse`, 'GET', { ...headers, Host: `evil.example:${port}` })).toBe(403);
+    expect(await rawRequest(`${httpServer.url}/mcp`, 'POST', { ...headers, Origin: 'http://evil.example' })).toBe(403);
+    expect(sessionTokens).toEqual([]);
+
+    expect(await rawRequest(`${httpServer.url}/mcp`, 'POST', { ...headers, Host: `localhost:${port}` })).toBe(200);
+  });
+
+  it('should refuse to listen off loopback without an auth token', async () => {
+    await expect(startHttpServer({
+      host: '0.0.0.0',
+      port: 0,
+      createSession: () => new Server({ name: 'test', version: '0.0.0' }, { capabilities: { tools: {} } }),
+    })).rejects.toThrow('An auth token is required to serve MCP on 0.0.0.0');
+  });
+});
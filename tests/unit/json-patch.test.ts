@@ -0,0 +1,135 @@
+import { applyJsonPatch, applyMergePatch, applyPatch, parseJsonPointer } from '../../src/json-patch';
+import { PatchError } from '../../src/errors';
+
+describe('json-patch', () => {
+  const definition = {
+    name: 'HomePage',
+    properties: { title: 'Home', padding: { top: 8, bottom: 8 } },
+    widgets: [
+      { type: 'Text', properties: { text: 'Hello' } },
+      { type: 'Button', properties: { text: 'Sign in' } },
+    ],
+  };
+
+  describe('parseJsonPointer', () => {
+    it('should unescape tokens', () => {
+      expect(parseJsonPointer('/a~1b/c~0d')).toEqual(['a/b', 'c~d']);
+      expect(parseJsonPointer('')).toEqual([]);
+    });
+
+    it('should reject pointers without a leading slash', () => {
+      expect(() => parseJsonPointer('widgets/0')).toThrow(PatchError);
+    });
+  });
+
+  describe('applyJsonPatch', () => {
+    it('should apply add, replace and remove operations', () => {
+      const result = applyJsonPatch(definition, [
+        { op: 'replace', path: '/widgets/0/properties/text', value: 'Welcome' },
+        { op: 'add', path: '/widgets/-', value: { type: 'Image' } },
+        { op: 'remove', path: '/properties/padding/bottom' },
+      ]);
+
+      expect(result.widgets[0].properties.text).toBe('Welcome');
+      expect(result.widgets[2]).toEqual({ type: 'Image' });
+      expect(result.properties.padding).toEqual({ top: 8 });
+      expect(result.widgets[1]).toEqual(definition.widgets[1]);
+    });
+
+    it('should apply move, copy and test operations', () => {
+      const result = applyJsonPatch(definition, [
+        { op: 'test', path: '/widgets/1/type', value: 'Button' },
+        { op: 'move', from: '/widgets/1', path: '/widgets/0' },
+        { op: 'copy', from: '/properties/title', path: '/properties/subtitle' },
+      ]);
+
+      expect(result.widgets.map((w: any) => w.type)).toEqual(['Button', 'Text']);
+      expect(result.properties).toMatchObject({ title: 'Home', subtitle: 'Home' });
+    });
+
+    it('should not mutate the input document', () => {
+      applyJsonPatch(definition, [{ op: 'replace', path: '/name', value: 'Other' }]);
+
+      expect(definition.name).toBe('HomePage');
+    });
+
+    it('should report the missing path and operation index', () => {
+      let error: any;
+      try {
+        applyJsonPatch(definition, [
+          { op: 'replace', path: '/name', value: 'Other' },
+          { op: 'replace', path: '/widgets/5/properties/text', value: 'x' },
+        ]);
+      } catch (e) {
+        error = e;
+      }
+
+      expect(error).toBeInstanceOf(PatchError);
+      expect(error.operationIndex).toBe(1);
+      expect(error.path).toBe('/widgets/5/properties/text');
+      expect(error.message).toContain('Patch operation 1 (replace) failed');
+      expect(error.message).toContain('"/widgets/5" not found');
+    });
+
+    it('should fail replace and remove on missing keys', () => {
+      expect(() => applyJsonPatch(definition, [{ op: 'replace', path: '/route', value: '/x' }])).toThrow('does not exist');
+      expect(() => applyJsonPatch(definition, [{ op: 'remove', path: '/properties/missing' }])).toThrow('does not exist');
+    });
+
+    it('should fail failed test operations', () => {
+      expect(() => applyJsonPatch(definition, [{ op: 'test', path: '/name', value: 'Nope' }])).toThrow('(test) failed');
+    });
+
+    it('should compare objects in test operations regardless of key order', () => {
+      expect(() => applyJsonPatch(definition, [
+        { op: 'test', path: '/properties/padding', value: { bottom: 8, top: 8 } },
+      ])).not.toThrow();
+      expect(() => applyJsonPatch(definition, [
+        { op: 'test', path: '/properties/padding', value: { bottom: 8, top: 8, left: 0 } },
+      ])).toThrow('(test) failed');
+    });
+
+    it('should reject unknown operations', () => {
+      expect(() => applyJsonPatch(definition, [{ op: 'merge', path: '/name' } as any])).toThrow('is invalid');
+    });
+
+    it('should not reach inherited properties or pollute Object.prototype', () => {
+      expect(() => applyJsonPatch({}, [{ op: 'add', path: '/__proto__/polluted', value: 'yes' }])).toThrow(PatchError);
+      expect(() => applyJsonPatch({}, [{ op: 'replace', path: '/constructor', value: 'x' }])).toThrow(PatchError);
+      expect(() => applyJsonPatch({}, [{ op: 'add', path: '/toString/polluted', value: 'yes' }])).toThrow('not found');
+      expect(() => applyJsonPatch({}, [{ op: 'remove', path: '/hasOwnProperty' }])).toThrow('does not exist');
+      expect(({} as any).polluted).toBeUndefined();
+    });
+  });
+
+  describe('applyMergePatch', () => {
+    it('should merge nested objects without wiping siblings', () => {
+      const result = applyMergePatch(definition, { properties: { padding: { top: 16 } } });
+
+      expect(result.properties).toEqual({ title: 'Home', padding: { top: 16, bottom: 8 } });
+      expect(result.widgets).toEqual(definition.widgets);
+    });
+
+    it('should delete keys set to null and replace arrays', () => {
+      const result = applyMergePatch(definition, { properties: { title: null }, widgets: [] });
+
+      expect(result.properties).toEqual({ padding: { top: 8, bottom: 8 } });
+      expect(result.widgets).toEqual([]);
+    });
+
+    it('should reject prototype keys', () => {
+      const patch = JSON.parse('{"__proto__": {"polluted": "yes"}}');
+
+      expect(() => applyMergePatch({}, patch)).toThrow(PatchError);
+      expect(() => applyMergePatch({}, { properties: { constructor: { prototype: 1 } } })).toThrow('not allowed');
+      expect(({} as any).polluted).toBeUndefined();
+    });
+  });
+
+  describe('applyPatch', () => {
+    it('should dispatch on the patch shape', () => {
+      expect(applyPatch({ a: 1 }, [{ op: 'add', path: '/b', value: 2 }])).toEqual({ a: 1, b: 2 });
+      expect(applyPatch({ a: { x: 1 } }, { a: { y: 2 } })).toEqual({ a: { x: 1, y: 2 } });
+    });
+  });
+});
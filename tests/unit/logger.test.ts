@@ -0,0 +1,97 @@
+import { createLogger, getLogLevel, runWithLogScope, setLogLevel, setLogSink, setSessionLogLevel } from '../../src/logger';
+import { YamlUtils } from '../../src/yaml-utils';
+
+describe('logger', () => {
+  const initialLevel = getLogLevel();
+  let records: Array<{ level: string; logger: string; data: unknown }>;
+
+  beforeEach(() => {
+    records = [];
+    setLogSink((level, logger, data) => {
+      records.push({ level, logger, data });
+    });
+    setLogLevel('debug');
+  });
+
+  afterEach(() => {
+    setLogSink(undefined);
+    setLogLevel(initialLevel);
+  });
+
+  it('should forward records to the sink with logger name and details', () => {
+    createLogger('test').warning('Something happened', { projectId: 'proj_123' });
+
+    expect(records).toEqual([
+      { level: 'warning', logger: 'test', data: { message: 'Something happened', projectId: 'proj_123' } },
+    ]);
+  });
+
+  it('should drop records below the configured level', () => {
+    const logger = createLogger('test');
+    setLogLevel('error');
+
+    logger.debug('debug');
+    logger.info('info');
+    logger.warning('warning');
+    logger.error('error');
+
+    expect(records.map(r => r.level)).toEqual(['error']);
+  });
+
+  it('should fall back to stderr when the sink throws', () => {
+    const stderr = jest.spyOn(console, 'error').mockImplementation(() => {});
+    setLogSink(() => {
+      throw new Error('not connected');
+    });
+
+    createLogger('test').error('boom');
+
+    expect(stderr).toHaveBeenCalledWith('[test] error: boom');
+    stderr.mockRestore();
+  });
+
+  it('should route records to a scoped sink within runWithLogScope', async () => {
+    const scoped: unknown[] = [];
+    const logger = createLogger('test');
+
+    await runWithLogScope({
+      sink: (_level, _logger, data) => {
+        scoped.push(data);
+      },
+    }, async () => {
+      await Promise.resolve();
+      logger.info('inside');
+    });
+    logger.info('outside');
+
+    expect(scoped).toEqual(['inside']);
+    expect(records.map(r => r.data)).toEqual(['outside']);
+  });
+
+  it('should keep levels set within a scope to that scope', () => {
+    const logger = createLogger('test');
+    const quiet = { sink: jest.fn(), level: undefined };
+    const verbose = { sink: jest.fn(), level: undefined };
+    setLogLevel('info');
+
+    runWithLogScope(quiet, () => setSessionLogLevel('error'));
+    runWithLogScope(verbose, () => setSessionLogLevel('debug'));
+    runWithLogScope(quiet, () => logger.info('quiet'));
+    runWithLogScope(verbose, () => logger.debug('verbose'));
+
+    expect(quiet.sink).not.toHaveBeenCalled();
+    expect(verbose.sink).toHaveBeenCalledWith('debug', 'test', 'verbose');
+    expect(getLogLevel()).toBe('info');
+  });
+
+  it('should keep YAML decoding off stdout', () => {
+    const stdout = jest.spyOn(console, 'log');
+    const encoded = YamlUtils.encodeProjectYaml({ 'app-state.yaml': { variables: [] } });
+
+    YamlUtils.decodeProjectYaml(encoded);
+
+    expect(stdout).not.toHaveBeenCalled();
+    expect(records.some(r => r.logger === 'yaml-decoder')).toBe(true);
+    stdout.mockRestore();
+  });
+});
@@ -0,0 +1,99 @@
+import axios from 'axios';
+import { CancelledError, toFlutterFlowError } from '../../src/errors';
+import { ProgressUpdate, createProgressReporter, throwIfAborted } from '../../src/progress';
+import { YamlUtils } from '../../src/yaml-utils';
+
+function projectFiles(count: number): Record<string, any> {
+  return Object.fromEntries(
+    Array.from({ length: count }, (_, i) => [`page/id-Page${i}.yaml`, { name: `Page${i}` }])
+  );
+}
+
+describe('progress', () => {
+  describe('createProgressReporter', () => {
+    it('should not report without a progress token', () => {
+      expect(createProgressReporter(undefined, jest.fn())).toBeUndefined();
+    });
+
+    it('should send increasing progress with the stage and counts in the message', () => {
+      const sendNotification = jest.fn().mockResolvedValue(undefined);
+      const report = createProgressReporter('tok-1', sendNotification)!;
+
+      report({ stage: 'download', message: 'Downloading project YAML' });
+      report({ stage: 'parse', message: 'Parsing YAML', completed: 3, total: 10 });
+
+      expect(sendNotification.mock.calls.map(([notification]) => notification)).toEqual([
+        {
+          method: 'notifications/progress',
+          params: { progressToken: 'tok-1', progress: 1, message: 'download: Downloading project YAML' },
+        },
+        {
+          method: 'notifications/progress',
+          params: { progressToken: 'tok-1', progress: 2, message: 'parse: Parsing YAML (3/10)' },
+        },
+      ]);
+    });
+
+    it('should ignore notifications the client can no longer receive', async () => {
+      const report = createProgressReporter(7, jest.fn().mockRejectedValue(new Error('Not connected')))!;
+
+      expect(() => report({ stage: 'upload', message: 'Uploading' })).not.toThrow();
+      await new Promise(resolve => setImmediate(resolve));
+    });
+  });
+
+  describe('cancellation', () => {
+    it('should throw CancelledError once the signal is aborted', () => {
+      const controller = new AbortController();
+      expect(() => throwIfAborted(controller.signal)).not.toThrow();
+
+      controller.abort();
+      expect(() => throwIfAborted(controller.signal)).toThrow(CancelledError);
+    });
+
+    it('should map cancelled axios requests to CancelledError', () => {
+      const error = toFlutterFlowError(new axios.CanceledError('canceled'), 'download project YAML', '/projectYamls');
+
+      expect(error).toBeInstanceOf(CancelledError);
+      expect(error.code).toBe('CANCELLED');
+    });
+  });
+
+  describe('YamlUtils.decodeProjectYamlAsync', () => {
+    it('should decode the same files as decodeProjectYaml and report unzip and parse stages', async () => {
+      const encoded = YamlUtils.encodeProjectYaml(projectFiles(60));
+      const updates: ProgressUpdate[] = [];
+
+      const decoded = await YamlUtils.decodeProjectYamlAsync(encoded, { onProgress: update => updates.push(update) });
+
+      expect(decoded).toEqual(YamlUtils.decodeProjectYaml(encoded));
+      expect(updates[1]).toEqual(expect.objectContaining({ stage: 'unzip', completed: 60, total: 60 }));
+      expect(updates.filter(update => update.stage === 'parse').at(-1)).toEqual(
+        expect.objectContaining({ completed: 60, total: 60 })
+      );
+    });
+
+    it('should stop decoding when the signal is aborted', async () => {
+      const encoded = YamlUtils.encodeProjectYaml(projectFiles(60));
+      const controller = new AbortController();
+      const parsed: number[] = [];
+
+      const decoding = YamlUtils.decodeProjectYamlAsync(encoded, {
+        signal: controller.signal,
+        onProgress: update => {
+          if (update.stage === 'parse') {
+            parsed.push(update.completed!);
+            controller.abort();
+          }
+        },
+      });
+
+      await expect(decoding).rejects.toBeInstanceOf(CancelledError);
+      expect(parsed.at(-1)).toBeLessThan(60);
+    });
+
+    it('should still report broken archives as decode failures', async () => {
+      await expect(YamlUtils.decodeProjectYamlAsync('invalid-base64')).rejects.toThrow('Failed to decode project YAML');
+    });
+  });
+});
@@ -0,0 +1,72 @@
+import { matchProject, resolveProjectReference } from '../../src/project-resolver';
+import { AmbiguousProjectError, InvalidArgumentError, NotFoundError } from '../../src/errors';
+import { FlutterFlowAPI } from '../../src/flutterflow-api';
+
+describe('matchProject', () => {
+  const projects = [
+    { projectId: 'proj_123', name: 'TestApp' },
+    { projectId: 'proj_456', name: 'Test App Staging' },
+    { projectId: 'proj_789', name: 'Client Portal' },
+    { projectId: 'proj_999', name: 'testapp' },
+  ];
+
+  it('should match project IDs', () => {
+    expect(matchProject(projects, 'proj_789').name).toBe('Client Portal');
+  });
+
+  it('should prefer an exact name over looser matches', () => {
+    expect(matchProject(projects, 'TestApp').projectId).toBe('proj_123');
+    expect(matchProject(projects, 'testapp').projectId).toBe('proj_999');
+  });
+
+  it('should match case-insensitively, ignoring punctuation, partially and with small typos', () => {
+    expect(matchProject(projects, 'CLIENT PORTAL').projectId).toBe('proj_789');
+    expect(matchProject(projects, 'client-portal').projectId).toBe('proj_789');
+    expect(matchProject(projects, 'portal').projectId).toBe('proj_789');
+    expect(matchProject(projects, 'Client Portel').projectId).toBe('proj_789');
+  });
+
+  it('should list candidates when a name matches several projects', () => {
+    const others = projects.filter(p => p.projectId !== 'proj_999');
+
+    expect(() => matchProject(others, 'test')).toThrow(AmbiguousProjectError);
+    try {
+      matchProject(others, 'test');
+    } catch (error) {
+      expect((error as AmbiguousProjectError).candidates).toEqual([
+        { projectId: 'proj_123', name: 'TestApp' },
+        { projectId: 'proj_456', name: 'Test App Staging' },
+      ]);
+      expect((error as AmbiguousProjectError).toJSON()).toMatchObject({ code: 'INVALID_ARGUMENT' });
+      expect((error as Error).message).toContain('"TestApp" (proj_123), "Test App Staging" (proj_456)');
+    }
+  });
+
+  it('should not treat names as IDs when matchIds is false', () => {
+    expect(() => matchProject(projects, 'proj_123', { matchIds: false })).toThrow(NotFoundError);
+  });
+
+  it('should throw NotFoundError when nothing matches', () => {
+    expect(() => matchProject(projects, 'Inventory')).toThrow('Project not found: Inventory');
+  });
+});
+
+describe('resolveProjectReference', () => {
+  const api = {
+    listProjects: jest.fn(async () => [{ projectId: 'proj_123', name: 'TestApp' }]),
+  } as unknown as FlutterFlowAPI;
+
+  it('should trust an explicit projectId without listing projects', async () => {
+    await expect(resolveProjectReference(api, { projectId: 'proj_abc' })).resolves.toBe('proj_abc');
+    expect(api.listProjects).not.toHaveBeenCalled();
+  });
+
+  it('should resolve project and projectName references by name', async () => {
+    await expect(resolveProjectReference(api, { project: 'testapp' })).resolves.toBe('proj_123');
+    await expect(resolveProjectReference(api, { projectName: 'Test App' })).resolves.toBe('proj_123');
+  });
+
+  it('should require some project reference', async () => {
+    await expect(resolveProjectReference(api, {})).rejects.toThrow(InvalidArgumentError);
+  });
+});
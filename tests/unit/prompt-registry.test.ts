@@ -0,0 +1,115 @@
+import { Server } from '@modelcontextprotocol/sdk/server/index.js';
+import { getPrompt, listPrompts } from '../../src/prompts/registry';
+import { outlineWidgets } from '../../src/prompts/shared';
+import { CredentialsRegistry } from '../../src/credentials';
+import { ConfirmationStore } from '../../src/confirmations';
+import { ServerContext } from '../../src/server-context';
+import { WritePolicy } from '../../src/write-policy';
+import { ArgumentValidationError, InvalidArgumentError, NotFoundError } from '../../src/errors';
+
+describe('prompt registry', () => {
+  const server = new Server({ name: 'test', version: '0.0.0' }, { capabilities: { prompts: {} } });
+  const files = {
+    'pages/home_page.yaml': {
+      pageDefinition: {
+        name: 'HomePage',
+        route: '/home',
+        widgets: [
+          {
+            type: 'Column',
+            children: [
+              { type: 'Text', properties: { text: 'Welcome!' } },
+              { type: 'CustomButton', properties: { text: 'Get Started' } },
+            ],
+          },
+        ],
+      },
+    },
+    'components/custom_button.yaml': { componentDefinition: { name: 'CustomButton', widgets: [] } },
+    'collections/users.yaml': {
+      collectionDefinition: { name: 'users', fields: [{ name: 'email', type: 'String' }] },
+    },
+    'custom_code/functions/format_date.yaml': {
+      functionDefinition: { name: 'formatDate', code: 'String formatDate(DateTime d) => d.toString();' },
+    },
+  };
+  const profileContext = {
+    profile: 'default',
+    flutterflowAPI: { listProjects: jest.fn(async () => [{ projectId: 'proj_123', name: 'TestApp' }]) },
+    snapshotCache: { getProjectFiles: jest.fn(async () => files) },
+  };
+  const serverContext: ServerContext = {
+    credentials: new CredentialsRegistry([{ name: 'default', apiToken: 'token' }]),
+    writePolicy: new WritePolicy(),
+    confirmations: new ConfirmationStore(),
+    forProfile: () => profileContext as any,
+  };
+
+  function promptText(result: any): string {
+    return result.messages.map((message: any) => message.content.text).join('\n');
+  }
+
+  it('should list prompts with their arguments', () => {
+    const prompts = listPrompts();
+
+    expect(prompts.map(prompt => prompt.name)).toEqual([
+      'audit_project',
+      'crud_page_for_collection',
+      'explain_page_widget_tree',
+      'review_custom_code',
+    ]);
+    expect(prompts[1].arguments).toEqual([
+      { name: 'project', description: 'Project ID or name', required: true },
+      { name: 'collection', description: 'Name of the database collection', required: true },
+      { name: 'profile', description: expect.any(String), required: false },
+    ]);
+  });
+
+  it('should embed the project overview in the audit prompt', async () => {
+    const result = await getPrompt('audit_project', { project: 'TestApp' }, { server, serverContext });
+
+    const text = promptText(result);
+    expect(result.messages[0].role).toBe('user');
+    expect(text).toContain('Audit the FlutterFlow project proj_123');
+    expect(text).toContain('"route": "/home"');
+    expect(text).toContain('"formatDate"');
+  });
+
+  it('should embed the collection definition in the CRUD prompt', async () => {
+    const result = await getPrompt(
+      'crud_page_for_collection',
+      { project: 'proj_123', collection: 'Users' },
+      { server, serverContext }
+    );
+
+    expect(promptText(result)).toContain('"name": "email"');
+    await expect(getPrompt('crud_page_for_collection', { project: 'proj_123', collection: 'orders' }, { server, serverContext }))
+      .rejects.toThrow(new NotFoundError('Collection not found: orders. Available: users'));
+  });
+
+  it('should outline the widget tree of a page', async () => {
+    const result = await getPrompt('explain_page_widget_tree', { project: 'proj_123', page: 'HomePage' }, { server, serverContext });
+
+    expect(promptText(result)).toContain('- Column\n  - Text (text: "Welcome!")\n  - CustomButton (text: "Get Started")');
+    expect(promptText(result)).toContain('Project components: CustomButton');
+  });
+
+  it('should include the code under review', async () => {
+    const result = await getPrompt('review_custom_code', { project: 'proj_123', name: 'formatDate' }, { server, serverContext });
+
+    expect(promptText(result)).toContain('### function formatDate (custom_code/functions/format_date.yaml)');
+    expect(promptText(result)).toContain('String formatDate(DateTime d) => d.toString();');
+  });
+
+  it('should reject unknown prompts and missing arguments', async () => {
+    await expect(getPrompt('nope', {}, { server, serverContext })).rejects.toThrow(InvalidArgumentError);
+    await expect(getPrompt('explain_page_widget_tree', { project: 'proj_123' }, { server, serverContext }))
+      .rejects.toThrow(ArgumentValidationError);
+  });
+
+  describe('outlineWidgets', () => {
+    it('should render an empty tree as an empty string', () => {
+      expect(outlineWidgets([])).toBe('');
+    });
+  });
+});
@@ -0,0 +1,123 @@
+import {
+  completeTemplateArgument,
+  listResourceTemplates,
+  readTemplatedResource,
+} from '../../src/resource-templates';
+import { NotFoundError } from '../../src/errors';
+import { YamlUtils } from '../../src/yaml-utils';
+
+describe('resource templates', () => {
+  const files: Record<string, any> = {
+    'pages/home_page.yaml': { pageDefinition: { name: 'HomePage', route: '/home' } },
+    'pages/profile_settings.yaml': { pageDefinition: { name: 'ProfileSettings', route: '/profile/settings' } },
+    'pages/settings_page.yaml': { pageDefinition: { name: 'SettingsPage', route: '/settings' } },
+    'components/custom_button.yaml': { componentDefinition: { name: 'CustomButton' } },
+    'collections/users.yaml': { collectionDefinition: { name: 'users', fields: [{ name: 'email' }] } },
+    'custom_code/actions/validate_email.yaml': { actionDefinition: { name: 'validateEmail', code: 'bool f() => true;' } },
+    'custom_code/functions/format_date.yaml': { functionDefinition: { name: 'formatDate', code: '' } },
+  };
+  const context = {
+    profile: 'default',
+    flutterflowAPI: {
+      listProjects: jest.fn(async () => [{ projectId: 'proj_123', name: 'TestApp' }, { projectId: 'demo_1', name: 'Demo' }]),
+      getProjectFiles: jest.fn(async () => Object.keys(files)),
+    },
+    snapshotCache: {
+      getProjectFiles: jest.fn(async (_projectId: string, options: any = {}) =>
+        options.partitions ? YamlUtils.filterPartitions(files, options.partitions) : files
+      ),
+    },
+  } as any;
+
+  async function readText(uri: string): Promise<string> {
+    const result = await readTemplatedResource(uri, context);
+    return result!.contents[0].text as string;
+  }
+
+  it('should list the per-entity templates', () => {
+    expect(listResourceTemplates().map(template => template.uriTemplate)).toEqual([
+      'flutterflow://projects/{id}/pages/{pageName}',
+      'flutterflow://projects/{id}/components/{name}',
+      'flutterflow://projects/{id}/collections/{name}',
+      'flutterflow://projects/{id}/custom_code/{kind}/{name}',
+      'flutterflow://projects/{id}/files/{+path}',
+    ]);
+  });
+
+  it('should read single entities as YAML', async () => {
+    expect(await readText('flutterflow://projects/proj_123/pages/HomePage')).toBe(
+      'pageDefinition:\n  name: HomePage\n  route: /home\n'
+    );
+    expect(await readText('flutterflow://projects/proj_123/components/custombutton')).toContain('name: CustomButton');
+    expect(await readText('flutterflow://projects/proj_123/collections/users')).toContain('- name: email');
+    expect(await readText('flutterflow://projects/proj_123/custom_code/actions/validateEmail')).toContain('code: bool f() => true;');
+    expect(context.snapshotCache.getProjectFiles).toHaveBeenCalledWith('proj_123', { partitions: ['pages'] });
+  });
+
+  it('should read files by nested or encoded path', async () => {
+    expect(await readText('flutterflow://projects/proj_123/files/pages/home_page.yaml')).toContain('route: /home');
+    expect(await readText('flutterflow://projects/proj_123/files/pages%2Fsettings_page.yaml')).toContain('route: /settings');
+    await expect(readTemplatedResource('flutterflow://projects/proj_123/files/pages/missing.yaml', context))
+      .rejects.toThrow(NotFoundError);
+  });
+
+  it('should leave project-level URIs to the static resources', async () => {
+    expect(await readTemplatedResource('flutterflow://projects/proj_123/pages', context)).toBeUndefined();
+    expect(await readTemplatedResource('flutterflow://projects/proj_123/summary', context)).toBeUndefined();
+  });
+
+  it('should report unknown entities and custom code kinds', async () => {
+    await expect(readTemplatedResource('flutterflow://projects/proj_123/pages/Nope', context))
+      .rejects.toThrow('Page not found: Nope. Available: HomePage, ProfileSettings, SettingsPage');
+    await expect(readTemplatedResource('flutterflow://projects/proj_123/custom_code/scripts/x', context))
+      .rejects.toThrow('Unknown custom code kind "scripts"');
+  });
+
+  describe('completion', () => {
+    it('should complete project ids and entity names', async () => {
+      const projects = await completeTemplateArgument(
+        'flutterflow://projects/{id}/pages/{pageName}', { name: 'id', value: 'pro' }, {}, context
+      );
+      expect(projects).toEqual({ values: ['proj_123'], total: 1, hasMore: false });
+
+      const pages = await completeTemplateArgument(
+        'flutterflow://projects/{id}/pages/{pageName}', { name: 'pageName', value: 'page' }, { id: 'proj_123' }, context
+      );
+      expect(pages.values).toEqual(['HomePage', 'SettingsPage']);
+      expect(pages.total).toBe(2);
+
+      const prefixFirst = await completeTemplateArgument(
+        'flutterflow://projects/{id}/pages/{pageName}', { name: 'pageName', value: 'settings' }, { id: 'proj_123' }, context
+      );
+      expect(prefixFirst.values).toEqual(['SettingsPage', 'ProfileSettings']);
+    });
+
+    it('should complete custom code by kind and file paths', async () => {
+      const kinds = await completeTemplateArgument(
+        'flutterflow://projects/{id}/custom_code/{kind}/{name}', { name: 'kind', value: '' }, {}, context
+      );
+      expect(kinds.values).toEqual(['actions', 'functions', 'widgets']);
+
+      const functions = await completeTemplateArgument(
+        'flutterflow://projects/{id}/custom_code/{kind}/{name}',
+        { name: 'name', value: '' },
+        { id: 'proj_123', kind: 'functions' },
+        context
+      );
+      expect(functions.values).toEqual(['formatDate']);
+
+      const paths = await completeTemplateArgument(
+        'flutterflow://projects/{id}/files/{+path}', { name: 'path', value: 'collections/' }, { id: 'proj_123' }, context
+      );
+      expect(paths.values).toEqual(['collections/users.yaml']);
+    });
+
+    it('should require the project before completing names', async () => {
+      await expect(completeTemplateArgument(
+        'flutterflow://projects/{id}/components/{name}', { name: 'name', value: '' }, {}, context
+      )).rejects.toThrow('The project id must be filled in first');
+      expect(await completeTemplateArgument('flutterflow://other/{x}', { name: 'x', value: '' }, {}, context))
+        .toEqual({ values: [], total: 0, hasMore: false });
+    });
+  });
+});
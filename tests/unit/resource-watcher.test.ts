@@ -0,0 +1,134 @@
+import { Server } from '@modelcontextprotocol/sdk/server/index.js';
+import { Client } from '@modelcontextprotocol/sdk/client/index.js';
+import { InMemoryTransport } from '@modelcontextprotocol/sdk/inMemory.js';
+import {
+  ResourceListChangedNotificationSchema,
+  ResourceUpdatedNotificationSchema,
+} from '@modelcontextprotocol/sdk/types.js';
+import { ResourceWatcher, watchTargetFor } from '../../src/resource-watcher';
+import { InvalidArgumentError } from '../../src/errors';
+import { YamlUtils } from '../../src/yaml-utils';
+
+describe('ResourceWatcher', () => {
+  describe('watchTargetFor', () => {
+    it('should map resource URIs to what they depend on', () => {
+      expect(watchTargetFor('flutterflow://projects/p1')).toEqual({ kind: 'project', projectId: 'p1' });
+      expect(watchTargetFor('flutterflow://projects/p1/summary')).toEqual({ kind: 'fileList', projectId: 'p1' });
+      expect(watchTargetFor('flutterflow://projects/p1/database'))
+        .toEqual({ kind: 'partition', projectId: 'p1', partition: 'collections' });
+      expect(watchTargetFor('flutterflow://projects/p1/pages/HomePage'))
+        .toEqual({ kind: 'partition', projectId: 'p1', partition: 'pages' });
+      expect(watchTargetFor('flutterflow://projects/p1/files/pages/home.yaml'))
+        .toEqual({ kind: 'file', projectId: 'p1', path: 'pages/home.yaml' });
+    });
+
+    it('should reject URIs outside flutterflow://projects', () => {
+      expect(() => watchTargetFor('https://example.com')).toThrow(InvalidArgumentError);
+      expect(() => watchTargetFor('flutterflow://projects/p1/unknown')).toThrow('unknown resource type "unknown"');
+    });
+  });
+
+  describe('polling', () => {
+    let files: Record<string, any>;
+    let projects: Array<{ projectId: string; name: string }>;
+    let client: Client;
+    let watcher: ResourceWatcher;
+    let updated: string[];
+    let listChanged: number;
+
+    const context = {
+      profile: 'default',
+      flutterflowAPI: {
+        listProjects: jest.fn(async () => projects),
+        getProjectFiles: jest.fn(async () => Object.keys(files)),
+      },
+      snapshotCache: {
+        getProjectFiles: jest.fn(async (_projectId: string, options: any = {}) =>
+          options.partitions ? YamlUtils.filterPartitions(files, options.partitions) : files
+        ),
+      },
+    } as any;
+
+    beforeEach(async () => {
+      files = {
+        'pages/home.yaml': { pageDefinition: { name: 'Home' } },
+        'components/button.yaml': { componentDefinition: { name: 'Button' } },
+      };
+      projects = [{ projectId: 'p1', name: 'App' }];
+      updated = [];
+      listChanged = 0;
+
+      const server = new Server(
+        { name: 'test', version: '0.0.0' },
+        { capabilities: { resources: { subscribe: true, listChanged: true } } }
+      );
+      watcher = new ResourceWatcher(server, () => context, { intervalMs: 60 * 60 * 1000 });
+      client = new Client({ name: 'test-client', version: '0.0.0' });
+      client.setNotificationHandler(ResourceUpdatedNotificationSchema, async (notification) => {
+        updated.push(notification.params.uri);
+      });
+      client.setNotificationHandler(ResourceListChangedNotificationSchema, async () => {
+        listChanged++;
+      });
+      const [clientTransport, serverTransport] = InMemoryTransport.createLinkedPair();
+      await Promise.all([server.connect(serverTransport), client.connect(clientTransport)]);
+    });
+
+    afterEach(async () => {
+      watcher.stop();
+      await client.close();
+    });
+
+    async function flush() {
+      await new Promise(resolve => setImmediate(resolve));
+    }
+
+    it('should notify subscribers of the partition that changed', async () => {
+      watcher.subscribe('flutterflow://projects/p1/pages');
+      watcher.subscribe('flutterflow://projects/p1/components/Button');
+      await watcher.poll();
+
+      files = { ...files, 'pages/home.yaml': { pageDefinition: { name: 'Home', route: '/' } } };
+      await watcher.poll();
+      await flush();
+
+      expect(updated).toEqual(['flutterflow://projects/p1/pages']);
+    });
+
+    it('should notify file list subscribers when files are added', async () => {
+      watcher.subscribe('flutterflow://projects/p1/summary');
+      await watcher.poll();
+      await watcher.poll();
+      expect(updated).toEqual([]);
+
+      files = { ...files, 'pages/about.yaml': {} };
+      await watcher.poll();
+      await flush();
+
+      expect(updated).toEqual(['flutterflow://projects/p1/summary']);
+    });
+
+    it('should send list_changed when projects appear or disappear', async () => {
+      watcher.subscribe('flutterflow://projects/p1');
+      await watcher.poll();
+
+      projects = [...projects, { projectId: 'p2', name: 'Other' }];
+      await watcher.poll();
+      await flush();
+
+      expect(listChanged).toBe(1);
+    });
+
+    it('should stop notifying after unsubscribe', async () => {
+      watcher.subscribe('flutterflow://projects/p1/pages');
+      await watcher.poll();
+      watcher.unsubscribe('flutterflow://projects/p1/pages');
+
+      files = {};
+      await watcher.poll();
+      await flush();
+
+      expect(updated).toEqual([]);
+    });
+  });
+});
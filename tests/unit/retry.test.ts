@@ -0,0 +1,156 @@
+import axios, { AxiosError, AxiosHeaders } from 'axios';
+import nock from 'nock';
+import {
+  DEFAULT_RETRY_POLICY,
+  computeBackoffDelay,
+  isRetryableError,
+  parseRetryAfter,
+  resolveRetryPolicy,
+  withRetry,
+} from '../../src/retry';
+import { CancelledError } from '../../src/errors';
+
+function httpError(status: number, headers: Record<string, string> = {}): AxiosError {
+  const config = { headers: new AxiosHeaders() };
+  return new AxiosError(`Request failed with status code ${status}`, 'ERR_BAD_RESPONSE', config, null, {
+    status,
+    statusText: '',
+    headers,
+    config,
+    data: {},
+  });
+}
+
+describe('retry', () => {
+  const fastPolicy = { ...DEFAULT_RETRY_POLICY, baseDelayMs: 1, maxDelayMs: 5 };
+
+  afterEach(() => {
+    delete process.env.FLUTTERFLOW_MAX_RETRIES;
+    delete process.env.FLUTTERFLOW_RETRY_UPDATES;
+  });
+
+  describe('resolveRetryPolicy', () => {
+    it('should use defaults when nothing is configured', () => {
+      expect(resolveRetryPolicy()).toEqual(DEFAULT_RETRY_POLICY);
+    });
+
+    it('should read overrides from the environment', () => {
+      process.env.FLUTTERFLOW_MAX_RETRIES = '5';
+      process.env.FLUTTERFLOW_RETRY_UPDATES = 'true';
+
+      const policy = resolveRetryPolicy();
+
+      expect(policy.maxRetries).toBe(5);
+      expect(policy.retryNonIdempotent).toBe(true);
+    });
+
+    it('should prefer explicit options over the environment', () => {
+      process.env.FLUTTERFLOW_MAX_RETRIES = '5';
+      expect(resolveRetryPolicy({ maxRetries: 1 }).maxRetries).toBe(1);
+    });
+  });
+
+  describe('parseRetryAfter', () => {
+    it('should parse delay in seconds', () => {
+      expect(parseRetryAfter('2')).toBe(2000);
+    });
+
+    it('should parse HTTP dates relative to now', () => {
+      const now = Date.parse('2025-01-01T00:00:00Z');
+      expect(parseRetryAfter('Wed, 01 Jan 2025 00:00:10 GMT', now)).toBe(10000);
+    });
+
+    it('should return null for missing or invalid headers', () => {
+      expect(parseRetryAfter(undefined)).toBeNull();
+      expect(parseRetryAfter('soon')).toBeNull();
+    });
+  });
+
+  describe('computeBackoffDelay', () => {
+    it('should grow exponentially and respect the cap', () => {
+      const policy = { ...DEFAULT_RETRY_POLICY, baseDelayMs: 100, maxDelayMs: 1000 };
+      const max = () => 0.9999;
+
+      expect(computeBackoffDelay(0, policy, max)).toBe(99);
+      expect(computeBackoffDelay(2, policy, max)).toBe(399);
+      expect(computeBackoffDelay(10, policy, max)).toBe(999);
+    });
+  });
+
+  describe('isRetryableError', () => {
+    it('should retry rate limits and transient server errors', () => {
+      expect(isRetryableError(httpError(429), DEFAULT_RETRY_POLICY)).toBe(true);
+      expect(isRetryableError(httpError(503), DEFAULT_RETRY_POLICY)).toBe(true);
+    });
+
+    it('should not retry client errors or non-HTTP errors', () => {
+      expect(isRetryableError(httpError(400), DEFAULT_RETRY_POLICY)).toBe(false);
+      expect(isRetryableError(httpError(404), DEFAULT_RETRY_POLICY)).toBe(false);
+      expect(isRetryableError(new Error('boom'), DEFAULT_RETRY_POLICY)).toBe(false);
+    });
+  });
+
+  describe('withRetry', () => {
+    it('should retry until the operation succeeds', async () => {
+      const operation = jest.fn()
+        .mockRejectedValueOnce(httpError(503))
+        .mockRejectedValueOnce(httpError(429, { 'retry-after': '0' }))
+        .mockResolvedValue('ok');
+
+      await expect(withRetry(operation, fastPolicy)).resolves.toBe('ok');
+      expect(operation).toHaveBeenCalledTimes(3);
+    });
+
+    it('should retry requests that hit the axios timeout', async () => {
+      const scope = nock('https://api.example.com')
+        .get('/slow').delay(500).reply(200, 'late')
+        .get('/slow').reply(200, 'ok');
+      const client = axios.create({ baseURL: 'https://api.example.com', timeout: 50 });
+
+      const response = await withRetry(() => client.get('/slow'), fastPolicy);
+
+      expect(response.data).toBe('ok');
+      expect(scope.isDone()).toBe(true);
+      nock.cleanAll();
+    });
+
+    it('should give up after maxRetries attempts', async () => {
+      const operation = jest.fn().mockRejectedValue(httpError(500));
+
+      await expect(withRetry(operation, { ...fastPolicy, maxRetries: 2 })).rejects.toThrow('500');
+      expect(operation).toHaveBeenCalledTimes(3);
+    });
+
+    it('should not retry non-idempotent operations unless opted in', async () => {
+      const operation = jest.fn().mockRejectedValue(httpError(503));
+
+      await expect(withRetry(operation, fastPolicy, false)).rejects.toThrow();
+      expect(operation).toHaveBeenCalledTimes(1);
+
+      operation.mockClear();
+      await expect(withRetry(operation, { ...fastPolicy, retryNonIdempotent: true, maxRetries: 1 }, false)).rejects.toThrow();
+      expect(operation).toHaveBeenCalledTimes(2);
+    });
+
+    it('should stop waiting for the backoff as soon as the request is cancelled', async () => {
+      const controller = new AbortController();
+      const operation = jest.fn().mockRejectedValue(httpError(503));
+      const started = Date.now();
+      setTimeout(() => controller.abort(), 20);
+
+      await expect(withRetry(operation, { ...fastPolicy, baseDelayMs: 30000, maxDelayMs: 30000 }, true, undefined, controller.signal))
+        .rejects.toThrow(CancelledError);
+      expect(Date.now() - started).toBeLessThan(5000);
+      expect(operation).toHaveBeenCalledTimes(1);
+    });
+
+    it('should not start an attempt once the request is cancelled', async () => {
+      const controller = new AbortController();
+      controller.abort();
+      const operation = jest.fn().mockResolvedValue('ok');
+
+      await expect(withRetry(operation, fastPolicy, true, undefined, controller.signal)).rejects.toThrow(CancelledError);
+      expect(operation).not.toHaveBeenCalled();
+    });
+  });
+});
@@ -0,0 +1,207 @@
+import { promises as fs } from 'fs';
+import os from 'os';
+import path from 'path';
+import { FlutterFlowAPI } from '../../src/flutterflow-api';
+import { SnapshotCache } from '../../src/snapshot-cache';
+import { YamlUtils } from '../../src/yaml-utils';
+
+describe('SnapshotCache', () => {
+  const files = {
+    'pages/home_page.yaml': { pageDefinition: { name: 'HomePage' } },
+  };
+  let directory: string;
+  let api: { downloadProjectYAML: jest.Mock; getProjectFiles: jest.Mock };
+
+  beforeEach(async () => {
+    directory = await fs.mkdtemp(path.join(os.tmpdir(), 'ff-cache-test-'));
+    api = {
+      downloadProjectYAML: jest.fn().mockResolvedValue(YamlUtils.encodeProjectYaml(files)),
+      getProjectFiles: jest.fn().mockResolvedValue(Object.keys(files)),
+    };
+  });
+
+  afterEach(async () => {
+    await fs.rm(directory, { recursive: true, force: true });
+  });
+
+  function createCache(ttlMs = 60000, downloadBatchSize = 50) {
+    return new SnapshotCache(api as unknown as FlutterFlowAPI, { directory, ttlMs, downloadBatchSize });
+  }
+
+  it('should download once and serve subsequent reads from disk', async () => {
+    const cache = createCache();
+
+    const first = await cache.getProjectFiles('proj_123');
+    const second = await cache.getProjectFiles('proj_123');
+
+    expect(first).toEqual(files);
+    expect(second).toEqual(files);
+    expect(api.downloadProjectYAML).toHaveBeenCalledTimes(1);
+  });
+
+  it('should share snapshots between cache instances', async () => {
+    await createCache().getProjectFiles('proj_123');
+    await createCache().getProjectFiles('proj_123');
+
+    expect(api.downloadProjectYAML).toHaveBeenCalledTimes(1);
+  });
+
+  it('should bypass the cache when refresh is requested', async () => {
+    const cache = createCache();
+
+    await cache.getProjectFiles('proj_123');
+    await cache.getProjectFiles('proj_123', { refresh: true });
+
+    expect(api.downloadProjectYAML).toHaveBeenCalledTimes(2);
+  });
+
+  it('should re-download after invalidation', async () => {
+    const cache = createCache();
+
+    await cache.getProjectFiles('proj_123');
+    await cache.invalidate('proj_123');
+    await cache.getProjectFiles('proj_123');
+
+    expect(api.downloadProjectYAML).toHaveBeenCalledTimes(2);
+  });
+
+  it('should expire snapshots after the TTL', async () => {
+    const cache = createCache(1000);
+    const now = Date.now();
+    const dateSpy = jest.spyOn(Date, 'now').mockReturnValue(now);
+
+    await cache.getProjectFiles('proj_123');
+    dateSpy.mockReturnValue(now + 1500);
+    await cache.getProjectFiles('proj_123');
+
+    expect(api.downloadProjectYAML).toHaveBeenCalledTimes(2);
+    dateSpy.mockRestore();
+  });
+
+  it('should keep projects separate', async () => {
+    const cache = createCache();
+
+    await cache.getProjectFiles('proj_123');
+    await cache.getProjectFiles('proj_456');
+
+    expect(api.downloadProjectYAML).toHaveBeenCalledTimes(2);
+  });
+
+  it('should keep cached projects readable only by the owner', async () => {
+    await fs.chmod(directory, 0o755);
+    const cache = new SnapshotCache(api as unknown as FlutterFlowAPI, { directory, namespace: 'abc123', ttlMs: 60000 });
+
+    await cache.getProjectFiles('proj_123');
+
+    const projectDirectory = path.join(directory, 'abc123', 'v2', 'proj_123');
+    expect((await fs.stat(directory)).mode & 0o777).toBe(0o700);
+    expect((await fs.stat(projectDirectory)).mode & 0o777).toBe(0o700);
+    expect((await fs.stat(path.join(projectDirectory, 'full.json'))).mode & 0o777).toBe(0o600);
+  });
+
+  it('should keep namespaces apart', async () => {
+    const cache = (namespace: string) =>
+      new SnapshotCache(api as unknown as FlutterFlowAPI, { directory, namespace, ttlMs: 60000 });
+
+    await cache('profile-a').getProjectFiles('proj_123');
+    await cache('profile-b').getProjectFiles('proj_123');
+
+    expect(api.downloadProjectYAML).toHaveBeenCalledTimes(2);
+  });
+
+  it('should not cache when the TTL is zero', async () => {
+    const cache = createCache(0);
+
+    await cache.getProjectFiles('proj_123');
+    await cache.getProjectFiles('proj_123');
+
+    expect(api.downloadProjectYAML).toHaveBeenCalledTimes(2);
+  });
+
+  describe('partitions', () => {
+    const fileNames = [
+      'app-state.yaml',
+      'pages/a.yaml',
+      'pages/b.yaml',
+      'pages/c.yaml',
+      'components/button.yaml',
+    ];
+
+    beforeEach(() => {
+      api.getProjectFiles.mockResolvedValue(fileNames);
+      api.downloadProjectYAML.mockImplementation(async (_projectId: string, names: string[]) =>
+        YamlUtils.encodeProjectYaml(Object.fromEntries(names.map(name => [name, { pageDefinition: { name } }])))
+      );
+    });
+
+    it('should download only the files of the requested partitions in batches', async () => {
+      const cache = createCache(60000, 2);
+
+      const pages = await cache.getProjectFiles('proj_123', { partitions: ['pages'] });
+
+      expect(Object.keys(pages)).toEqual(['pages/a.yaml', 'pages/b.yaml', 'pages/c.yaml']);
+      expect(api.downloadProjectYAML).toHaveBeenCalledTimes(2);
+      expect(api.downloadProjectYAML).toHaveBeenNthCalledWith(1, 'proj_123', ['pages/a.yaml', 'pages/b.yaml'], {});
+      expect(api.downloadProjectYAML).toHaveBeenNthCalledWith(2, 'proj_123', ['pages/c.yaml'], {});
+    });
+
+    it('should skip the download when no files match', async () => {
+      api.getProjectFiles.mockResolvedValue(['pages/a.yaml']);
+
+      const components = await createCache().getProjectFiles('proj_123', { partitions: ['components'] });
+
+      expect(components).toEqual({});
+      expect(api.downloadProjectYAML).not.toHaveBeenCalled();
+    });
+
+    it('should find collections defined in a single file when there is no collections folder', async () => {
+      const project = {
+        'pages/a.yaml': { pageDefinition: { name: 'A' } },
+        'firestore.yaml': { collections: { users: { fields: [] } } },
+      };
+      api.getProjectFiles.mockResolvedValue(Object.keys(project));
+      api.downloadProjectYAML.mockResolvedValue(YamlUtils.encodeProjectYaml(project));
+
+      const collections = await createCache().getProjectFiles('proj_123', { partitions: ['collections'] });
+
+      expect(Object.keys(collections)).toEqual(['firestore.yaml']);
+      expect(YamlUtils.extractDatabaseCollections(collections).map(collection => collection.name)).toEqual(['users']);
+    });
+
+    it('should cache each partition selection separately', async () => {
+      const cache = createCache();
+
+      await cache.getProjectFiles('proj_123', { partitions: ['pages'] });
+      await cache.getProjectFiles('proj_123', { partitions: ['pages'] });
+      await cache.getProjectFiles('proj_123', { partitions: ['components'] });
+
+      expect(api.getProjectFiles).toHaveBeenCalledTimes(2);
+      expect(api.downloadProjectYAML).toHaveBeenCalledTimes(2);
+    });
+
+    it('should serve partitions from a cached full snapshot', async () => {
+      const cache = createCache();
+      api.downloadProjectYAML.mockResolvedValue(YamlUtils.encodeProjectYaml({
+        'pages/a.yaml': { pageDefinition: { name: 'A' } },
+        'components/button.yaml': { componentDefinition: { name: 'Button' } },
+      }));
+
+      await cache.getProjectFiles('proj_123');
+      const components = await cache.getProjectFiles('proj_123', { partitions: ['components'] });
+
+      expect(Object.keys(components)).toEqual(['components/button.yaml']);
+      expect(api.getProjectFiles).not.toHaveBeenCalled();
+      expect(api.downloadProjectYAML).toHaveBeenCalledTimes(1);
+    });
+
+    it('should drop partition snapshots on invalidation', async () => {
+      const cache = createCache();
+
+      await cache.getProjectFiles('proj_123', { partitions: ['pages'] });
+      await cache.invalidate('proj_123');
+      await cache.getProjectFiles('proj_123', { partitions: ['pages'] });
+
+      expect(api.getProjectFiles).toHaveBeenCalledTimes(2);
+    });
+  });
+});
@@ -0,0 +1,92 @@
+import { promises as fs } from 'fs';
+import os from 'os';
+import path from 'path';
+import { SnapshotStore } from '../../src/snapshot-store';
+import { NotFoundError } from '../../src/errors';
+
+describe('SnapshotStore', () => {
+  const files = {
+    'pages/home_page.yaml': { pageDefinition: { name: 'HomePage', route: '/home' } },
+    'app-state.yaml': { variables: [] },
+  };
+  let directory: string;
+  let store: SnapshotStore;
+
+  beforeEach(async () => {
+    directory = await fs.mkdtemp(path.join(os.tmpdir(), 'ff-snapshots-test-'));
+    store = new SnapshotStore({ directory, maxSnapshotsPerProject: 3 });
+  });
+
+  afterEach(async () => {
+    await fs.rm(directory, { recursive: true, force: true });
+  });
+
+  it('should save snapshots with metadata and read them back', async () => {
+    const metadata = await store.save('proj_123', files, { tool: 'update_page', commitMessage: 'Change route' });
+
+    expect(metadata).toMatchObject({
+      projectId: 'proj_123',
+      tool: 'update_page',
+      commitMessage: 'Change route',
+      fileCount: 2,
+    });
+    expect(new Date(metadata.createdAt).toString()).not.toBe('Invalid Date');
+
+    const snapshot = await store.get('proj_123', metadata.id);
+    expect(snapshot.files).toEqual(files);
+  });
+
+  it('should keep snapshots readable by the owner only', async () => {
+    const nested = path.join(directory, 'store');
+    const { id } = await new SnapshotStore({ directory: nested }).save('proj_123', files, { tool: 'update_page' });
+
+    const projectDirectory = path.join(nested, 'proj_123');
+    expect((await fs.stat(nested)).mode & 0o777).toBe(0o700);
+    expect((await fs.stat(projectDirectory)).mode & 0o777).toBe(0o700);
+    expect((await fs.stat(path.join(projectDirectory, `${id}.json`))).mode & 0o777).toBe(0o600);
+  });
+
+  it('should list snapshots newest first without file contents', async () => {
+    const first = await store.save('proj_123', files, { tool: 'update_page' });
+    const second = await store.save('proj_123', files, { tool: 'add_custom_action' });
+
+    const snapshots = await store.list('proj_123');
+
+    expect(snapshots.map(s => s.id)).toEqual([second.id, first.id]);
+    expect(snapshots[0]).not.toHaveProperty('files');
+  });
+
+  it('should keep projects separate', async () => {
+    await store.save('proj_123', files, { tool: 'update_page' });
+
+    expect(await store.list('proj_456')).toEqual([]);
+  });
+
+  it('should prune the oldest snapshots beyond the limit', async () => {
+    const saved = [];
+    for (let i = 0; i < 5; i++) {
+      saved.push(await store.save('proj_123', files, { tool: 'update_page', commitMessage: `edit ${i}` }));
+    }
+
+    const snapshots = await store.list('proj_123');
+
+    expect(snapshots).toHaveLength(3);
+    expect(snapshots.map(s => s.commitMessage)).toEqual(['edit 4', 'edit 3', 'edit 2']);
+    await expect(store.get('proj_123', saved[0].id)).rejects.toBeInstanceOf(NotFoundError);
+  });
+
+  it('should remove a snapshot', async () => {
+    const kept = await store.save('proj_123', files, { tool: 'update_page' });
+    const dropped = await store.save('proj_123', files, { tool: 'update_page' });
+
+    await store.remove('proj_123', dropped.id);
+
+    expect((await store.list('proj_123')).map(snapshot => snapshot.id)).toEqual([kept.id]);
+    await expect(store.remove('proj_123', '../escape')).resolves.toBeUndefined();
+  });
+
+  it('should reject unknown or malformed snapshot ids', async () => {
+    await expect(store.get('proj_123', 'missing')).rejects.toBeInstanceOf(NotFoundError);
+    await expect(store.get('proj_123', '../../etc/passwd')).rejects.toBeInstanceOf(NotFoundError);
+  });
+});
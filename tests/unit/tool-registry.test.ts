@@ -0,0 +1,190 @@
+import { Server } from '@modelcontextprotocol/sdk/server/index.js';
+import { Client } from '@modelcontextprotocol/sdk/client/index.js';
+import { InMemoryTransport } from '@modelcontextprotocol/sdk/inMemory.js';
+import { CallToolRequestSchema, ListToolsRequestSchema } from '@modelcontextprotocol/sdk/types.js';
+import { callTool, listTools, toolDefinitions } from '../../src/tools/registry';
+import { CredentialsRegistry } from '../../src/credentials';
+import { ServerContext } from '../../src/server-context';
+import { WritePolicy } from '../../src/write-policy';
+import { ConfirmationStore } from '../../src/confirmations';
+
+function parseText(result: any) {
+  return JSON.parse(result.content[0].text);
+}
+
+describe('tool registry', () => {
+  const server = new Server({ name: 'test', version: '0.0.0' }, { capabilities: { tools: {} } });
+  let requestedProfiles: Array<string | undefined>;
+  let serverContext: ServerContext;
+  const flutterflowAPI = {
+    getProjectFiles: jest.fn(async () => ['pages/home.yaml']),
+    listProjects: jest.fn(async () => [{ projectId: 'proj_123', name: 'TestApp' }]),
+  };
+
+  beforeEach(() => {
+    requestedProfiles = [];
+    const credentials = new CredentialsRegistry([
+      { name: 'personal', apiToken: 'personal-token' },
+      { name: 'client-a', apiToken: 'client-token' },
+    ]);
+    serverContext = {
+      credentials,
+      writePolicy: new WritePolicy(),
+      confirmations: new ConfirmationStore(),
+      forProfile: (name?: string) => {
+        requestedProfiles.push(name);
+        return { profile: name ?? 'personal', flutterflowAPI } as any;
+      },
+    };
+  });
+
+  it('should derive a JSON Schema object with a profile argument for every tool', () => {
+    const tools = listTools();
+
+    expect(tools.map(tool => tool.name)).toEqual(toolDefinitions.map(tool => tool.name));
+    tools.forEach(tool => {
+      expect(tool.inputSchema.type).toBe('object');
+      expect(tool.inputSchema.properties).toHaveProperty('profile');
+      expect(tool.annotations).toBeDefined();
+    });
+
+    const updateComponent = tools.find(tool => tool.name === 'update_component')!;
+    expect(updateComponent.inputSchema.required).toEqual(['componentName', 'updates']);
+    expect(updateComponent.inputSchema.properties).toHaveProperty('project');
+  });
+
+  it('should reject invalid arguments with field-level messages', async () => {
+    const result = await callTool('update_component', { componentName: 42, updates: 'nope' }, { server, serverContext });
+
+    expect(result.isError).toBe(true);
+    const { error } = parseText(result);
+    expect(error.code).toBe('INVALID_ARGUMENT');
+    expect(error.issues).toEqual([
+      { path: 'componentName', message: 'Expected string, received number' },
+      { path: 'updates', message: 'Expected array, received string or Expected object, received string' },
+    ]);
+    expect(error.message).toContain('Invalid arguments for update_component: componentName: Expected string');
+  });
+
+  it('should report unknown tools as errors', async () => {
+    const result = await callTool('delete_everything', {}, { server, serverContext });
+
+    expect(result.isError).toBe(true);
+    expect(parseText(result).error.message).toBe('Unknown tool: delete_everything');
+  });
+
+  it('should run the handler with the requested profile', async () => {
+    const result = await callTool('get_project_files', { projectId: 'proj_123', profile: 'client-a' }, { server, serverContext });
+
+    expect(result.isError).toBeUndefined();
+    expect(parseText(result)).toEqual(['pages/home.yaml']);
+    expect(requestedProfiles).toEqual(['client-a']);
+    expect(flutterflowAPI.getProjectFiles).toHaveBeenCalledWith('proj_123', {});
+  });
+
+  it('should resolve project names for tools that previously required an ID', async () => {
+    await callTool('get_project_files', { project: 'testapp' }, { server, serverContext });
+
+    expect(flutterflowAPI.getProjectFiles).toHaveBeenLastCalledWith('proj_123', {});
+  });
+
+  it('should list profiles without exposing tokens', async () => {
+    const result = await callTool('list_profiles', undefined, { server, serverContext });
+
+    expect(parseText(result)).toEqual({ defaultProfile: 'personal', profiles: ['personal', 'client-a'] });
+    expect(result.content[0].text).not.toContain('token');
+  });
+
+  it('should advertise read-only and destructive hints', () => {
+    const tools = listTools();
+    const annotationsOf = (name: string) => tools.find(tool => tool.name === name)!.annotations;
+
+    expect(annotationsOf('get_pages')).toMatchObject({ readOnlyHint: true, title: 'Get pages' });
+    expect(annotationsOf('update_project_yaml')).toMatchObject({ readOnlyHint: false, destructiveHint: true });
+    expect(annotationsOf('add_custom_action')).toMatchObject({ readOnlyHint: false, destructiveHint: false });
+  });
+
+  it('should hide and refuse write tools in read-only mode', async () => {
+    serverContext.writePolicy = new WritePolicy({ readOnly: true });
+
+    const names = listTools(serverContext).map(tool => tool.name);
+    expect(names).toContain('get_pages');
+    expect(names).toContain('validate_project_yaml');
+    ['update_component', 'update_page', 'add_custom_action', 'add_custom_function', 'add_database_collection',
+      'update_project_yaml', 'rollback_to_snapshot'].forEach(name => expect(names).not.toContain(name));
+
+    const result = await callTool('update_project_yaml', { projectId: 'proj_123', yamlContent: 'UEs=' }, { server, serverContext });
+    expect(result.isError).toBe(true);
+    expect(parseText(result).error).toMatchObject({ code: 'WRITE_FORBIDDEN', retryable: false });
+  });
+
+  it('should keep write tools listed when an allowlist permits some projects', () => {
+    serverContext.writePolicy = new WritePolicy({ readOnly: true, writableProjects: ['proj_123'] });
+
+    expect(listTools(serverContext).map(tool => tool.name)).toContain('update_page');
+  });
+
+  it('should declare an object output schema for every tool', () => {
+    listTools().forEach(tool => {
+      expect(tool.outputSchema?.type).toBe('object');
+    });
+    const getPages = listTools().find(tool => tool.name === 'get_pages')!;
+    expect(getPages.outputSchema?.properties).toHaveProperty('pages');
+  });
+
+  it('should return structuredContent alongside the text', async () => {
+    const files = await callTool('get_project_files', { projectId: 'proj_123' }, { server, serverContext });
+    const projects = await callTool('list_projects', {}, { server, serverContext });
+
+    expect(files.structuredContent).toEqual({ files: ['pages/home.yaml'] });
+    expect(projects.structuredContent).toEqual({ projects: [{ projectId: 'proj_123', name: 'TestApp' }] });
+    // The text form is unchanged for existing clients
+    expect(parseText(projects)).toEqual([{ projectId: 'proj_123', name: 'TestApp' }]);
+  });
+
+  it('should turn output that drifts from the schema into a tool error', async () => {
+    flutterflowAPI.listProjects.mockResolvedValueOnce([{ projectId: 'proj_123' } as any]);
+
+    const result = await callTool('list_projects', {}, { server, serverContext });
+
+    expect(result.isError).toBe(true);
+    expect(result.structuredContent).toBeUndefined();
+    expect(parseText(result).error).toMatchObject({ code: 'UNEXPECTED_RESPONSE' });
+    expect(parseText(result).error.message).toContain('list_projects produced a result that does not match its output schema');
+    expect(parseText(result).error.message).toContain('projects.0.name: Required');
+  });
+
+  it('should accept fields left empty in the project YAML', async () => {
+    const files = {
+      'pages/home.yaml': { pageDefinition: { name: 'Home', route: null } },
+      'custom_code/functions/double.yaml': { functionDefinition: { name: null, code: 'x * 2' } },
+    };
+    const snapshotCache = { getProjectFiles: jest.fn(async () => files) };
+    serverContext.forProfile = () => ({ profile: 'personal', flutterflowAPI, snapshotCache } as any);
+
+    const pages = await callTool('get_pages', { projectId: 'proj_123' }, { server, serverContext });
+    const customCode = await callTool('get_custom_code', { projectId: 'proj_123' }, { server, serverContext });
+
+    expect(pages.isError).toBeUndefined();
+    expect(pages.structuredContent).toMatchObject({ pages: [{ name: 'Home', route: null }] });
+    expect(customCode.isError).toBeUndefined();
+    expect(customCode.structuredContent).toMatchObject({ functions: [{ name: null, code: 'x * 2' }] });
+  });
+
+  it('should produce structured output that passes client-side schema validation', async () => {
+    const mcpServer = new Server({ name: 'test', version: '0.0.0' }, { capabilities: { tools: {} } });
+    mcpServer.setRequestHandler(ListToolsRequestSchema, async () => ({ tools: listTools() }));
+    mcpServer.setRequestHandler(CallToolRequestSchema, async (request) =>
+      callTool(request.params.name, request.params.arguments, { server: mcpServer, serverContext })
+    );
+    const client = new Client({ name: 'test-client', version: '0.0.0' });
+    const [clientTransport, serverTransport] = InMemoryTransport.createLinkedPair();
+    await Promise.all([mcpServer.connect(serverTransport), client.connect(clientTransport)]);
+
+    await client.listTools();
+    const result = await client.callTool({ name: 'get_project_summary', arguments: { project: 'TestApp' } });
+
+    expect(result.structuredContent).toMatchObject({ projectId: 'proj_123', totalFiles: 1 });
+    await client.close();
+  });
+});
@@ -0,0 +1,56 @@
+import { isLoopbackHost, resolveTransportConfig } from '../../src/transport-config';
+import { InvalidArgumentError } from '../../src/errors';
+
+describe('resolveTransportConfig', () => {
+  it('should default to stdio on localhost', () => {
+    expect(resolveTransportConfig([], {})).toEqual({
+      transport: 'stdio',
+      host: '127.0.0.1',
+      port: 3000,
+      authToken: undefined,
+    });
+  });
+
+  it('should read transport settings from the environment', () => {
+    const config = resolveTransportConfig([], {
+      MCP_TRANSPORT: 'http',
+      MCP_HOST: '0.0.0.0',
+      MCP_PORT: '8080',
+      MCP_AUTH_TOKEN: 'secret',
+    });
+
+    expect(config).toEqual({ transport: 'http', host: '0.0.0.0', port: 8080, authToken: 'secret' });
+  });
+
+  it('should prefer command line flags over the environment', () => {
+    const config = resolveTransportConfig(
+      ['--transport', 'http', '--port=9000', '--host', 'localhost'],
+      { MCP_TRANSPORT: 'stdio', MCP_PORT: '8080' }
+    );
+
+    expect(config).toMatchObject({ transport: 'http', host: 'localhost', port: 9000 });
+  });
+
+  it('should reject unknown transports and invalid ports', () => {
+    expect(() => resolveTransportConfig(['--transport', 'websocket'], {})).toThrow(InvalidArgumentError);
+    expect(() => resolveTransportConfig(['--transport', 'sse'], {})).toThrow('Unknown transport "sse"');
+    expect(() => resolveTransportConfig(['--port', 'abc'], {})).toThrow('Invalid port "abc"');
+  });
+
+  it('should refuse to serve HTTP off loopback without an auth token', () => {
+    expect(() => resolveTransportConfig(['--transport', 'http', '--host', '0.0.0.0'], {}))
+      .toThrow('Refusing to serve HTTP on 0.0.0.0 without authentication');
+    expect(resolveTransportConfig(['--transport', 'http'], {})).toMatchObject({ host: '127.0.0.1', authToken: undefined });
+    // stdio never binds the host
+    expect(() => resolveTransportConfig(['--host', '0.0.0.0'], {})).not.toThrow();
+  });
+
+  it('should recognize loopback hosts', () => {
+    ['127.0.0.1', '127.1.2.3', 'localhost', '::1', '[::1]', '::ffff:127.0.0.1'].forEach(host =>
+      expect(isLoopbackHost(host)).toBe(true)
+    );
+    ['0.0.0.0', '::', '192.168.1.10', 'example.com', '127.0.0.1.example.com'].forEach(host =>
+      expect(isLoopbackHost(host)).toBe(false)
+    );
+  });
+});
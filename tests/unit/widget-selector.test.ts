@@ -0,0 +1,79 @@
+import { SelectorError } from '../../src/errors';
+import { matchesSteps, parseWidgetSelector } from '../../src/widget-selector';
+
+describe('widget-selector', () => {
+  describe('parseWidgetSelector', () => {
+    it('should parse scopes, combinators, names and attributes', () => {
+      expect(parseWidgetSelector('Page:HomePage Column > Button#SignIn[text*="Sign"]')).toEqual([
+        {
+          scope: { kind: 'page', name: 'HomePage' },
+          steps: [
+            { compound: { type: 'Column', attributes: [] }, combinator: 'descendant' },
+            {
+              compound: {
+                type: 'Button',
+                name: 'SignIn',
+                attributes: [{ path: ['text'], operator: '*=', value: 'Sign' }],
+              },
+              combinator: 'child',
+            },
+          ],
+        },
+      ]);
+    });
+
+    it('should parse selector lists, universal steps and unquoted values', () => {
+      const [first, second] = parseWidgetSelector('Component:* > *, Text [padding.top=8.5]');
+
+      expect(first).toEqual({
+        scope: { kind: 'component', name: undefined },
+        steps: [{ compound: { attributes: [] }, combinator: 'child' }],
+      });
+      expect(second.steps[1].compound.attributes).toEqual([{ path: ['padding', 'top'], operator: '=', value: '8.5' }]);
+    });
+
+    it('should match every widget of a scope given on its own', () => {
+      expect(parseWidgetSelector('Page:HomePage')[0].steps).toEqual([
+        { compound: { attributes: [] }, combinator: 'descendant' },
+      ]);
+    });
+
+    it('should report where parsing failed', () => {
+      expect(() => parseWidgetSelector('Column > ')).toThrow(SelectorError);
+      expect(() => parseWidgetSelector('Button[text="Sign')).toThrow('Unterminated string');
+      try {
+        parseWidgetSelector('Column ] Text');
+      } catch (error) {
+        expect((error as SelectorError).toJSON()).toMatchObject({ code: 'INVALID_ARGUMENT', position: 7 });
+      }
+      expect(() => parseWidgetSelector('  ')).toThrow('Selector must not be empty');
+    });
+  });
+
+  describe('matchesSteps', () => {
+    const button = { type: 'Button', properties: { text: 'Sign in', size: 12 } };
+    const row = { type: 'Row', children: [button] };
+    const column = { type: 'Column', children: [row] };
+
+    function matches(selector: string, widget: any, ancestors: any[]) {
+      return matchesSteps(widget, ancestors, parseWidgetSelector(selector)[0].steps);
+    }
+
+    it('should distinguish descendants from direct children', () => {
+      expect(matches('Column Button', button, [column, row])).toBe(true);
+      expect(matches('Column > Button', button, [column, row])).toBe(false);
+      expect(matches('Column > Row > Button', button, [column, row])).toBe(true);
+      expect(matches('> Button', button, [column, row])).toBe(false);
+      expect(matches('> Column', column, [])).toBe(true);
+    });
+
+    it('should compare property values as text', () => {
+      expect(matches('[size=12]', button, [])).toBe(true);
+      expect(matches('[text^=Sign]', button, [])).toBe(true);
+      expect(matches('[text$="in"]', button, [])).toBe(true);
+      expect(matches('[text!="Sign in"]', button, [])).toBe(false);
+      expect(matches('[type=Button]', button, [])).toBe(true);
+      expect(matches('[color]', button, [])).toBe(false);
+    });
+  });
+});
@@ -0,0 +1,56 @@
+import { WritePolicy, resolveWritePolicy } from '../../src/write-policy';
+import { WriteForbiddenError } from '../../src/errors';
+
+describe('WritePolicy', () => {
+  it('should allow every write by default', () => {
+    const policy = new WritePolicy();
+
+    expect(policy.writesEnabled).toBe(true);
+    expect(() => policy.assertWritable('proj_123')).not.toThrow();
+  });
+
+  it('should refuse every write in read-only mode', () => {
+    const policy = new WritePolicy({ readOnly: true });
+
+    expect(policy.writesEnabled).toBe(false);
+    expect(() => policy.assertWritable('proj_123')).toThrow(WriteForbiddenError);
+    expect(() => policy.assertWritable('proj_123')).toThrow('read-only mode');
+  });
+
+  it('should only allow allowlisted projects', () => {
+    const policy = new WritePolicy({ readOnly: true, writableProjects: ['sandbox'] });
+
+    expect(policy.writesEnabled).toBe(true);
+    expect(policy.canWrite('sandbox')).toBe(true);
+    expect(() => policy.assertWritable('production')).toThrow('Project production is not on the write allowlist');
+  });
+
+  describe('resolveWritePolicy', () => {
+    it('should read the environment', () => {
+      const policy = resolveWritePolicy([], { FLUTTERFLOW_READ_ONLY: 'true', FLUTTERFLOW_WRITE_ALLOWLIST: 'a, b,' });
+
+      expect(policy.readOnly).toBe(true);
+      expect([...policy.writableProjects!]).toEqual(['a', 'b']);
+    });
+
+    it('should prefer command line flags', () => {
+      const policy = resolveWritePolicy(['--read-only', '--write-allowlist=c'], { FLUTTERFLOW_WRITE_ALLOWLIST: 'a' });
+
+      expect(policy.readOnly).toBe(true);
+      expect([...policy.writableProjects!]).toEqual(['c']);
+    });
+
+    it('should be permissive when nothing is configured', () => {
+      const policy = resolveWritePolicy([], {});
+
+      expect(policy.readOnly).toBe(false);
+      expect(policy.writableProjects).toBeUndefined();
+      expect(policy.requireConfirmation).toBe(true);
+    });
+
+    it('should allow turning confirmations off', () => {
+      expect(resolveWritePolicy(['--no-confirm'], {}).requireConfirmation).toBe(false);
+      expect(resolveWritePolicy([], { FLUTTERFLOW_CONFIRM_WRITES: 'false' }).requireConfirmation).toBe(false);
+    });
+  });
+});
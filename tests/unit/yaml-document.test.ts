@@ -0,0 +1,91 @@
+import { registerYamlSource, updateYamlSource, yamlSourceOf } from '../../src/yaml-document';
+
+const SOURCE = `# Landing page
+pageDefinition:
+  name: HomePage # shown first
+  route: '/home'
+  widgets:
+  - type: Text
+    properties: { text: "Hello", size: 12 }
+  - type: Button
+    properties:
+      text: Sign in
+`;
+
+describe('yaml-document', () => {
+  describe('updateYamlSource', () => {
+    it('should only rewrite the values that changed', () => {
+      const updated = updateYamlSource(SOURCE, {
+        pageDefinition: {
+          name: 'HomePage',
+          route: '/start',
+          widgets: [
+            { type: 'Text', properties: { text: 'Hello', size: 12 } },
+            { type: 'Button', properties: { text: 'Sign up' } },
+          ],
+        },
+      });
+
+      expect(updated).toBe(SOURCE.replace("'/home'", "'/start'").replace('Sign in', 'Sign up'));
+    });
+
+    it('should drop removed keys and append added ones and new items', () => {
+      const updated = updateYamlSource(SOURCE, {
+        pageDefinition: {
+          name: 'HomePage',
+          widgets: [
+            { type: 'Text', properties: { text: 'Hello', size: 12 } },
+            { type: 'Button', properties: { text: 'Sign in' } },
+            { type: 'Image' },
+          ],
+          hidden: true,
+        },
+      });
+
+      expect(updated).toBe(`# Landing page
+pageDefinition:
+  name: HomePage # shown first
+  widgets:
+  - type: Text
+    properties: { text: "Hello", size: 12 }
+  - type: Button
+    properties:
+      text: Sign in
+  - type: Image
+  hidden: true
+`);
+    });
+
+    it('should quote strings that would otherwise read back as another type', () => {
+      const updated = updateYamlSource('version: 1\nlabel: v1\n', { version: 2, label: 'true' })!;
+
+      expect(updated).toBe("version: 2\nlabel: \"true\"\n");
+    });
+
+    it('should turn empty keys into maps and lists', () => {
+      const source = 'pageDefinition:\n  name: Home\n  widgets:\n  properties:\n';
+
+      const updated = updateYamlSource(source, {
+        pageDefinition: { name: 'Home', widgets: [{ type: 'Text' }], properties: { padding: 8 } },
+      });
+
+      expect(updated).toBe('pageDefinition:\n  name: Home\n  widgets:\n    - type: Text\n  properties:\n    padding: 8\n');
+    });
+
+    it('should give up on text that is not valid YAML', () => {
+      expect(updateYamlSource('a: [1, 2\n', { a: [1] })).toBeUndefined();
+    });
+  });
+
+  describe('registerYamlSource', () => {
+    it('should remember the text of parsed objects only', () => {
+      const content = { name: 'HomePage' };
+      registerYamlSource(content, 'name: HomePage\n');
+      registerYamlSource(null, '~\n');
+
+      expect(yamlSourceOf(content)).toBe('name: HomePage\n');
+      expect(yamlSourceOf({ name: 'HomePage' })).toBeUndefined();
+      expect(yamlSourceOf(null)).toBeUndefined();
+    });
+  });
+});
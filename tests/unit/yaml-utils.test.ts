@@ -1,3 +1,5 @@
+import AdmZip from 'adm-zip';
+import { NotFoundError } from '../../src/errors';
 import { YamlUtils } from '../../src/yaml-utils';
 import * as responses from '../mocks/flutterflow-responses';
 
@@ -39,6 +41,21 @@ describe('YamlUtils', () => {
     it('should throw error for invalid base64 content', () => {
       expect(() => YamlUtils.decodeProjectYaml('invalid-base64')).toThrow('Failed to decode project YAML');
     });
+
+    it('should keep the original text of unchanged files and the formatting of changed ones', () => {
+      const homePage = "# Landing page\npageDefinition:\n  name: HomePage\n  route: '/home' # default route\n";
+      const settings = 'settings: {theme: dark,   debug: false}\n';
+      const zip = new AdmZip();
+      zip.addFile('pages/home_page.yaml', Buffer.from(homePage, 'utf8'));
+      zip.addFile('settings.yaml', Buffer.from(settings, 'utf8'));
+
+      const files = YamlUtils.decodeProjectYaml(zip.toBuffer().toString('base64'));
+      const updated = YamlUtils.updatePage(files, 'HomePage', { route: '/start' });
+      const encoded = new AdmZip(Buffer.from(YamlUtils.encodeProjectYaml(updated, files), 'base64'));
+
+      expect(encoded.readAsText('settings.yaml')).toBe(settings);
+      expect(encoded.readAsText('pages/home_page.yaml')).toBe(homePage.replace("'/home'", "'/start'"));
+    });
   });
 
   describe('extractComponents', () => {
@@ -265,6 +282,236 @@ describe('YamlUtils', () => {
     });
   });
 
+  describe('queryWidgets', () => {
+    const files = {
+      'pages/home_page.yaml': { pageDefinition: responses.mockPages[0].definition },
+      'pages/login_page.yaml': {
+        pageDefinition: {
+          name: 'LoginPage',
+          widgets: [
+            {
+              type: 'Column',
+              children: [
+                { type: 'Button', name: 'SignIn', properties: { text: 'Sign in' } },
+                { type: 'Row', children: [{ type: 'Button', properties: { text: 'Sign up' } }] },
+              ],
+            },
+          ],
+        },
+      },
+      'components/custom_button.yaml': { componentDefinition: responses.mockComponents[0].definition },
+    };
+
+    it('should return matches with their file, JSON Pointer and type path', () => {
+      expect(YamlUtils.queryWidgets(files, 'Page:LoginPage Column > Button[text*="Sign"]')).toEqual([
+        {
+          filename: 'pages/login_page.yaml',
+          kind: 'page',
+          owner: 'LoginPage',
+          path: '/widgets/0/children/0',
+          typePath: 'Column > Button',
+          widget: { type: 'Button', name: 'SignIn', properties: { text: 'Sign in' } },
+          childCount: 0,
+        },
+      ]);
+    });
+
+    it('should search pages and components unless scoped', () => {
+      const texts = YamlUtils.queryWidgets(files, 'Text');
+      expect(texts.map(match => [match.owner, match.path])).toEqual([
+        ['HomePage', '/widgets/0/children/1/children/0'],
+        ['CustomButton', '/widgets/0/children/0'],
+      ]);
+
+      expect(YamlUtils.queryWidgets(files, 'Component:* Text').map(match => match.owner)).toEqual(['CustomButton']);
+      expect(YamlUtils.queryWidgets(files, 'Page:loginpage Button').map(match => match.path)).toEqual([
+        '/widgets/0/children/0',
+        '/widgets/0/children/1/children/0',
+      ]);
+    });
+
+    it('should not return a widget twice when several selectors match it', () => {
+      expect(YamlUtils.queryWidgets(files, 'Button, #SignIn')).toHaveLength(2);
+    });
+
+    it('should reject scopes naming pages that do not exist', () => {
+      expect(() => YamlUtils.queryWidgets(files, 'Page:Missing Button')).toThrow('Page not found: Missing');
+    });
+  });
+
+  describe('widget edits', () => {
+    const files = {
+      'pages/login_page.yaml': {
+        pageDefinition: {
+          name: 'LoginPage',
+          widgets: [
+            {
+              type: 'Column',
+              children: [
+                { type: 'Text', properties: { text: 'Welcome' } },
+                { type: 'Button', name: 'SignIn', properties: { text: 'Sign in' } },
+                { type: 'Row', children: [] },
+              ],
+            },
+          ],
+        },
+      },
+      'components/card.yaml': { componentDefinition: { name: 'Card', widgets: [{ type: 'Container' }] } },
+    };
+    const column = (result: { files: any }) => result.files['pages/login_page.yaml'].pageDefinition.widgets[0];
+
+    it('should insert a child at an index and report its path', () => {
+      const result = YamlUtils.insertWidget(files, { page: 'LoginPage', path: '/widgets/0' }, { type: 'Divider' }, 1);
+
+      expect(column(result).children.map((child: any) => child.type)).toEqual(['Text', 'Divider', 'Button', 'Row']);
+      expect(result.location).toEqual({
+        filename: 'pages/login_page.yaml',
+        kind: 'page',
+        owner: 'LoginPage',
+        path: '/widgets/0/children/1',
+      });
+      expect(result.files['components/card.yaml']).toBe(files['components/card.yaml']);
+      expect(files['pages/login_page.yaml'].pageDefinition.widgets[0].children).toHaveLength(3);
+    });
+
+    it('should insert at the top level when the parent has no path', () => {
+      const result = YamlUtils.insertWidget(files, { component: 'Card' }, { type: 'Text' });
+
+      expect(result.files['components/card.yaml'].componentDefinition.widgets.map((w: any) => w.type))
+        .toEqual(['Container', 'Text']);
+      expect(result.location.path).toBe('/widgets/1');
+    });
+
+    it('should move a widget addressed by selector into another parent', () => {
+      const result = YamlUtils.moveWidget(files, { selector: 'Button#SignIn' }, { selector: 'Page:LoginPage Row' });
+
+      expect(column(result).children.map((child: any) => child.type)).toEqual(['Text', 'Row']);
+      expect(column(result).children[1].children[0].name).toBe('SignIn');
+      expect(result.location.path).toBe('/widgets/0/children/1/children/0');
+    });
+
+    it('should reorder siblings counting the index after removal', () => {
+      const result = YamlUtils.moveWidget(
+        files,
+        { page: 'LoginPage', path: '/widgets/0/children/0' },
+        { page: 'LoginPage', path: '/widgets/0' },
+        2
+      );
+
+      expect(column(result).children.map((child: any) => child.type)).toEqual(['Button', 'Row', 'Text']);
+    });
+
+    it('should refuse to move a widget into itself', () => {
+      expect(() => YamlUtils.moveWidget(
+        files,
+        { page: 'LoginPage', path: '/widgets/0' },
+        { page: 'LoginPage', path: '/widgets/0/children/2' }
+      )).toThrow('into itself or one of its descendants');
+    });
+
+    it('should wrap, replace and delete widgets', () => {
+      const target = { page: 'LoginPage', path: '/widgets/0/children/1' };
+
+      const wrapped = YamlUtils.wrapWidget(files, target, { type: 'Padding', properties: { padding: 8 } });
+      expect(column(wrapped).children[1]).toEqual({
+        type: 'Padding',
+        properties: { padding: 8 },
+        children: [{ type: 'Button', name: 'SignIn', properties: { text: 'Sign in' } }],
+      });
+
+      const replaced = YamlUtils.replaceWidget(files, target, { type: 'TextButton', properties: { text: 'Log in' } });
+      expect(column(replaced).children[1]).toEqual({ type: 'TextButton', properties: { text: 'Log in' } });
+
+      const deleted = YamlUtils.deleteWidget(files, target);
+      expect(column(deleted).children.map((child: any) => child.type)).toEqual(['Text', 'Row']);
+      expect(deleted.location.path).toBe('/widgets/0/children/1');
+    });
+
+    it('should reject ambiguous selectors, bad paths and invalid widgets', () => {
+      expect(() => YamlUtils.deleteWidget(files, { selector: 'Page:LoginPage *' })).toThrow('matches 4 widgets');
+      expect(() => YamlUtils.deleteWidget(files, { selector: 'Image' })).toThrow(NotFoundError);
+      expect(() => YamlUtils.deleteWidget(files, { page: 'LoginPage', path: '/widgets/0/children/9' }))
+        .toThrow('No widget at /widgets/0/children/9');
+      expect(() => YamlUtils.deleteWidget(files, { page: 'LoginPage', path: '/widgets/0/properties' }))
+        .toThrow('Invalid widget path');
+      expect(() => YamlUtils.insertWidget(files, { component: 'Card' }, { type: 'Row', children: [{}] }))
+        .toThrow('widget.children.0.type must be a non-empty string');
+      expect(() => YamlUtils.insertWidget(files, { component: 'Card' }, { type: 'Row' }, 5)).toThrow('out of range');
+    });
+  });
+
+  describe('buildReferenceGraph', () => {
+    const files = {
+      'pages/home_page.yaml': { pageDefinition: responses.mockPages[0].definition },
+      'pages/profile_page.yaml': {
+        pageDefinition: {
+          name: 'ProfilePage',
+          route: '/profile',
+          widgets: [{ type: 'Text', name: 'users', properties: { text: '${appState.currentUser.name}' } }],
+          actions: [{ name: 'load', type: 'customAction', action: 'validateEmail', collection: 'users' }],
+        },
+      },
+      'components/custom_button.yaml': {
+        componentDefinition: { name: 'CustomButton', widgets: [{ type: 'Text', properties: { visible: 'appState.isLoggedIn' } }] },
+      },
+      'custom_code/actions/validate_email.yaml': { actionDefinition: responses.mockCustomCode.actions[0].definition },
+      'collections/users.yaml': { collectionDefinition: responses.mockDatabaseCollections[0].definition },
+      'app-state.yaml': responses.mockAppState,
+    };
+
+    it('should link definitions to what they reference, with where the reference is', () => {
+      const graph = YamlUtils.buildReferenceGraph(files);
+
+      expect(graph.nodes.map(node => node.id)).toEqual([
+        'page:HomePage',
+        'page:ProfilePage',
+        'component:CustomButton',
+        'action:validateEmail',
+        'collection:users',
+        'appState:currentUser',
+        'appState:isLoggedIn',
+        'appState:theme',
+      ]);
+      expect(graph.edges).toEqual([
+        { from: 'page:HomePage', to: 'component:CustomButton', paths: ['/widgets/0/children/1/children/1/type'] },
+        { from: 'page:HomePage', to: 'page:ProfilePage', paths: ['/actions/0/target'] },
+        { from: 'page:ProfilePage', to: 'appState:currentUser', paths: ['/widgets/0/properties/text'] },
+        { from: 'page:ProfilePage', to: 'action:validateEmail', paths: ['/actions/0/action'] },
+        { from: 'page:ProfilePage', to: 'collection:users', paths: ['/actions/0/collection'] },
+        { from: 'component:CustomButton', to: 'appState:isLoggedIn', paths: ['/widgets/0/properties/visible'] },
+      ]);
+    });
+
+    it('should not count text that merely equals an entity name as a reference', () => {
+      const graph = YamlUtils.buildReferenceGraph({
+        ...files,
+        'pages/about_page.yaml': {
+          pageDefinition: {
+            name: 'AboutPage',
+            widgets: [{ type: 'Text', properties: { text: 'users', tooltip: 'CustomButton', label: '/profile', visible: 'isLoggedIn' } }],
+            actions: [{ type: 'validateEmail', description: 'users' }],
+          },
+        },
+      });
+
+      expect(graph.edges.filter(edge => edge.from === 'page:AboutPage')).toEqual([]);
+      expect(YamlUtils.findReferences(graph, 'collection:users').referencedBy.map(edge => edge.from)).toEqual(['page:ProfilePage']);
+    });
+
+    it('should find direct and indirect dependents', () => {
+      const graph = YamlUtils.buildReferenceGraph(files);
+
+      const direct = YamlUtils.findReferences(graph, 'appState:isLoggedIn');
+      expect(direct.referencedBy.map(edge => edge.from)).toEqual(['component:CustomButton']);
+      expect(direct.references).toEqual([]);
+
+      const transitive = YamlUtils.findReferences(graph, 'appState:isLoggedIn', { transitive: true });
+      expect(transitive.referencedBy.map(edge => edge.from)).toEqual(['component:CustomButton', 'page:HomePage']);
+
+      expect(() => YamlUtils.findReferences(graph, 'collection:posts')).toThrow(NotFoundError);
+    });
+  });
+
   describe('updateComponent', () => {
     it('should update component by name', () => {
       const files = {
@@ -301,6 +548,77 @@ describe('YamlUtils', () => {
 
       expect(updatedFiles['components/custom_button.yaml'].componentDefinition.newProp).toBe('value');
     });
+
+    it('should deep-merge nested updates without wiping siblings', () => {
+      const files = {
+        'components/button.yaml': {
+          componentDefinition: {
+            name: 'Button',
+            properties: { text: { type: 'string' }, color: { type: 'color' } },
+            widgets: [{ type: 'Container' }],
+          },
+        },
+      };
+
+      const updatedFiles = YamlUtils.updateComponent(files, 'Button', {
+        properties: { text: { default: 'Click me' } },
+      });
+      const definition = updatedFiles['components/button.yaml'].componentDefinition;
+
+      expect(definition.properties).toEqual({
+        text: { type: 'string', default: 'Click me' },
+        color: { type: 'color' },
+      });
+      expect(definition.widgets).toEqual([{ type: 'Container' }]);
+    });
+
+    it('should apply JSON Patch arrays', () => {
+      const files = {
+        'components/button.yaml': {
+          componentDefinition: { name: 'Button', widgets: [{ type: 'Container', children: [] }] },
+        },
+      };
+
+      const updatedFiles = YamlUtils.updateComponent(files, 'Button', [
+        { op: 'add', path: '/widgets/0/children/-', value: { type: 'Text' } },
+      ]);
+
+      expect(updatedFiles['components/button.yaml'].componentDefinition.widgets[0].children).toEqual([{ type: 'Text' }]);
+      expect(files['components/button.yaml'].componentDefinition.widgets[0].children).toEqual([]);
+    });
+
+    it('should throw when the component does not exist', () => {
+      expect(() => YamlUtils.updateComponent({}, 'Missing', {})).toThrow('Component not found: Missing');
+    });
+  });
+
+  describe('updatePage', () => {
+    const files = {
+      'pages/home_page.yaml': {
+        pageDefinition: {
+          name: 'HomePage',
+          route: '/home',
+          widgets: [{ type: 'Column', children: [{ type: 'Text', properties: { text: 'Hi' } }] }],
+        },
+      },
+    };
+
+    it('should report missing patch paths', () => {
+      expect(() => YamlUtils.updatePage(files, 'HomePage', [
+        { op: 'replace', path: '/widgets/0/children/3/properties/text', value: 'Hello' },
+      ])).toThrow('Path "/widgets/0/children/3/properties/text" does not exist');
+    });
+
+    it('should merge route changes and keep widgets', () => {
+      const updatedFiles = YamlUtils.updatePage(files, 'HomePage', { route: '/' });
+
+      expect(updatedFiles['pages/home_page.yaml'].pageDefinition.route).toBe('/');
+      expect(updatedFiles['pages/home_page.yaml'].pageDefinition.widgets).toHaveLength(1);
+    });
+
+    it('should throw when the page does not exist', () => {
+      expect(() => YamlUtils.updatePage(files, 'Missing', {})).toThrow('Page not found: Missing');
+    });
   });
 
   describe('addCustomAction', () => {
@@ -342,6 +660,153 @@ describe('YamlUtils', () => {
     });
   });
 
+  describe('diffProjectFiles', () => {
+    const before = {
+      'app-state.yaml': { variables: [] },
+      'pages/home_page.yaml': { pageDefinition: { name: 'HomePage', route: '/home' } },
+      'pages/old_page.yaml': { pageDefinition: { name: 'OldPage' } },
+    };
+
+    it('should report added, modified and removed files with unified diffs', () => {
+      const after = {
+        'app-state.yaml': { variables: [] },
+        'pages/home_page.yaml': { pageDefinition: { name: 'HomePage', route: '/' } },
+        'custom_code/actions/log.yaml': { actionDefinition: { name: 'log' } },
+      };
+
+      const diffs = YamlUtils.diffProjectFiles(before, after);
+
+      expect(diffs.map(d => [d.filename, d.status])).toEqual([
+        ['custom_code/actions/log.yaml', 'added'],
+        ['pages/home_page.yaml', 'modified'],
+        ['pages/old_page.yaml', 'removed'],
+      ]);
+
+      const homeDiff = diffs[1].diff;
+      expect(homeDiff).toContain('--- a/pages/home_page.yaml');
+      expect(homeDiff).toContain('+++ b/pages/home_page.yaml');
+      expect(homeDiff).toContain('-  route: /home');
+      expect(homeDiff).toContain('+  route: /');
+      expect(diffs[0].diff).toContain('--- /dev/null');
+    });
+
+    it('should return no diffs for identical snapshots', () => {
+      expect(YamlUtils.diffProjectFiles(before, JSON.parse(JSON.stringify(before)))).toEqual([]);
+    });
+
+    it('should diff against the original text of decoded files', () => {
+      const zip = new AdmZip();
+      zip.addFile('pages/home_page.yaml', Buffer.from('pageDefinition:\n  name: HomePage # main\n  route: "/home"\n'));
+      const decoded = YamlUtils.decodeProjectYaml(zip.toBuffer().toString('base64'));
+
+      const diffs = YamlUtils.diffProjectFiles(decoded, YamlUtils.updatePage(decoded, 'HomePage', { route: '/' }));
+      expect(diffs[0].diff).toContain('-  route: "/home"');
+      expect(diffs[0].diff).toContain('+  route: "/"');
+      expect(diffs[0].diff).not.toContain('-  name: HomePage # main');
+
+      expect(YamlUtils.diffProjectFiles(decoded, JSON.parse(JSON.stringify(decoded)))).toEqual([]);
+    });
+
+    it('should leave timestamps and hex numbers untouched when another value changes', () => {
+      const zip = new AdmZip();
+      zip.addFile(
+        'pages/home_page.yaml',
+        Buffer.from('pageDefinition:\n  name: HomePage\n  route: /home\n  createdAt: 2024-01-01T00:00:00.000Z\n  color: 0x1F\n')
+      );
+      const decoded = YamlUtils.decodeProjectYaml(zip.toBuffer().toString('base64'));
+
+      const diffs = YamlUtils.diffProjectFiles(decoded, YamlUtils.updatePage(decoded, 'HomePage', { route: '/' }));
+      const changedLines = diffs[0].diff
+        .split('\n')
+        .filter(line => /^[-+](?![-+])/.test(line));
+      expect(changedLines).toEqual(['-  route: /home', '+  route: /']);
+    });
+  });
+
+  describe('encodeChanges', () => {
+    function decoded(files: Record<string, any>) {
+      return YamlUtils.decodeProjectYaml(YamlUtils.encodeProjectYaml(files));
+    }
+
+    it('should zip only added and modified files and name their partitions', () => {
+      const files = decoded({
+        'app-state.yaml': { variables: [] },
+        'pages/home_page.yaml': { pageDefinition: { name: 'HomePage', route: '/home' } },
+        'components/card.yaml': { componentDefinition: { name: 'Card' } },
+      });
+      const updated = YamlUtils.addCustomAction(YamlUtils.updatePage(files, 'HomePage', { route: '/' }), 'log', {});
+
+      const changes = YamlUtils.encodeChanges(updated, files);
+
+      expect(changes.files).toEqual(['custom_code/actions/log.yaml', 'pages/home_page.yaml']);
+      expect(changes.partitions).toEqual(['pages', 'custom_code']);
+      expect(Object.keys(YamlUtils.decodeProjectYaml(changes.yamlContent)).sort()).toEqual(changes.files);
+    });
+
+    it('should treat equal copies as unchanged and catch edits made in place', () => {
+      const files = decoded({ 'pages/home_page.yaml': { pageDefinition: { name: 'HomePage' } } });
+
+      expect(YamlUtils.changedFiles(JSON.parse(JSON.stringify(files)), files)).toEqual([]);
+
+      files['pages/home_page.yaml'].pageDefinition.name = 'Start';
+      expect(YamlUtils.changedFiles(files, files)).toEqual(['pages/home_page.yaml']);
+      expect(YamlUtils.serializeFile(files['pages/home_page.yaml'])).toContain('name: Start');
+    });
+
+    it('should compare by value when the base files were not decoded', () => {
+      const before = { 'pages/home_page.yaml': { pageDefinition: { name: 'HomePage' } } };
+
+      expect(YamlUtils.changedFiles({ ...before }, before)).toEqual([]);
+      expect(YamlUtils.changedFiles({ 'pages/home_page.yaml': { pageDefinition: { name: 'Start' } } }, before))
+        .toEqual(['pages/home_page.yaml']);
+    });
+  });
+
+  describe('selectPartitionFiles', () => {
+    it('should select only files in the requested partitions', () => {
+      const fileNames = responses.mockFileNames.fileNames;
+
+      expect(YamlUtils.selectPartitionFiles(fileNames, ['pages'])).toEqual([
+        'pages/home_page.yaml',
+        'pages/profile_page.yaml',
+      ]);
+      expect(YamlUtils.selectPartitionFiles(fileNames, ['app_state', 'custom_code'])).toEqual([
+        'app-state.yaml',
+        'custom_code/actions/validate_email.yaml',
+        'custom_code/functions/format_date.yaml',
+      ]);
+    });
+
+    it('should match app state files with or without extension', () => {
+      expect(YamlUtils.selectPartitionFiles(['appState', 'app-state.yml', 'state.yaml'], ['app_state'])).toEqual([
+        'appState',
+        'app-state.yml',
+      ]);
+    });
+  });
+
+  describe('filterPartitions', () => {
+    it('should keep only decoded files in the requested partitions', () => {
+      const files = {
+        'app-state.yaml': { variables: [] },
+        'pages/home_page.yaml': { pageDefinition: { name: 'HomePage' } },
+        'components/button.yaml': { componentDefinition: { name: 'Button' } },
+      };
+
+      expect(Object.keys(YamlUtils.filterPartitions(files, ['components']))).toEqual(['components/button.yaml']);
+    });
+
+    it('should count files with a top-level collections key as collections', () => {
+      const files = {
+        'firestore.yaml': { collections: { users: { fields: [] } } },
+        'pages/home_page.yaml': { pageDefinition: { name: 'HomePage' } },
+      };
+
+      expect(Object.keys(YamlUtils.filterPartitions(files, ['collections']))).toEqual(['firestore.yaml']);
+      expect(YamlUtils.filterPartitions(files, ['pages'])).not.toHaveProperty(['firestore.yaml']);
+    });
+  });
+
   describe('extractNameFromFilename', () => {
     it('should extract name from various filename formats', () => {
       // Test via the public methods that use this private method